@@ -0,0 +1,13 @@
+const Fdc3Impl = require('../src-js/index');
+const {runConformanceSuite} = require('../src-js/testing');
+
+runConformanceSuite((platforms, config) => Fdc3Impl(platforms, [], config), {
+  includeBusCases: true,
+  onResult: (result) => console.log(`${result.passed ? 'ok' : 'not ok'} - ${result.name}${result.passed ? '' : `: ${result.error}`}`)
+}).then((report) => {
+  console.log(`${report.passed} passed, ${report.failed} failed`);
+  process.exit(report.failed > 0 ? 1 : 0);
+}, (error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -25,7 +25,21 @@ export enum OpenError {
 export enum ResolveError {
   NoAppsFound = "NoAppsFound",
   ResolverUnavailable = "ResolverUnavailable",
-  ResolverTimeout = "ResolverTimeout"
+  ResolverTimeout = "ResolverTimeout",
+  UserCancelled = "UserCancelled"
+}
+
+export enum ChannelError {
+  NoChannelFound = "NoChannelFound",
+  AccessDenied = "AccessDenied",
+  CreationFailed = "CreationFailed"
+}
+
+export enum DeliveryStatus {
+  Success = "Success",
+  Failure = "Failure",
+  Timeout = "Timeout",
+  Denied = "Denied"
 }
 
 export interface Context {
@@ -76,8 +90,17 @@ export interface AppIntent {
  */
 export interface AppMetadata {
   name: string;
+  appId?: string;         // The App Directory id of the app, if it is defined in the directory.
+  instanceId?: string;    // The id of a running instance of the app, as assigned by its platform.
+  platform?: string;      // The name of the platform the app is connected to.
 }
 
+/**
+ * Identifies the app an intent is raised to, either by its name or by its metadata.
+ * The name may be suffixed with the platform name, e.g. "Excel:Glue42".
+ */
+export type TargetApp = string | AppMetadata;
+
 /**
  * IntentResolution provides a standard format for data returned upon resolving an intent.
  * ```javascript
@@ -89,16 +112,91 @@ export interface AppMetadata {
  * ```
  */
 export interface IntentResolution {
-  source: string;
+  source: TargetApp;
   data?: object;
   version: string;
 }
 
+/**
+ * Outcome of delivering broadcast context to one peer.
+ */
+export interface Delivery {
+  target: AppMetadata;    // The peer the context was delivered to and its platform.
+  status: DeliveryStatus;
+  error?: string;         // The reason of the failure, if the delivery failed or was denied by the policy of the bus.
+}
+
+/**
+ * Lists the peers a broadcast context was delivered to.
+ * ```javascript
+ * const report = await agent.broadcast(context);
+ * const failed = report.deliveries.filter((delivery) => delivery.status !== "Success");
+ * ```
+ */
+export interface DeliveryReport {
+  context: Context;
+  deliveries: Delivery[];
+}
+
+/**
+ * Describes where a context delivered to a context listener came from.
+ */
+export interface ContextMetadata {
+  source: AppMetadata;
+}
+
+/**
+ * Receives the context and, when it is known, the app which broadcast it.
+ * Apps can compare the source with their own identity to ignore context they caused.
+ */
+export type ContextHandler = (context: Context, metadata?: ContextMetadata) => void;
+
 export interface Listener {
   /**
    * Unsubscribe the listener object.
+   * Resolves once the methods registered on the platforms for the listener are unregistered.
+   */
+  unsubscribe(): Promise<void>;
+}
+
+/**
+ * Hints for how a channel can be presented to the user, e.g. as a colour-linked group of windows.
+ */
+export interface DisplayMetadata {
+  name?: string;
+  color?: string;
+  glyph?: string;
+}
+
+/**
+ * A named context channel. Apps which have joined the same channel, or which listen on it directly,
+ * receive the context broadcast on it regardless of the platform they are connected to.
+ *
+ * System channels ("user channels") are predefined by the Desktop Agent and are typically picked by the user.
+ * App channels are created on demand by the applications with getOrCreateChannel().
+ */
+export interface Channel {
+  id: string;
+  type: "system" | "app";
+  displayMetadata?: DisplayMetadata;
+
+  /**
+   * Publishes context on the channel.
+   * Resolves with the peers the context was delivered to.
    */
-  unsubscribe();
+  broadcast(context: Context): Promise<DeliveryReport>;
+
+  /**
+   * Returns the last context broadcast on the channel, or null if there is none.
+   */
+  getCurrentContext(): Promise<Context | null>;
+
+  /**
+   * Adds a listener for context broadcast on the channel, whether or not the app has joined it.
+   * If a context type is passed, only context of that type is delivered to the handler.
+   */
+  addContextListener(handler: ContextHandler): Listener;
+  addContextListener(contextType: string, handler: ContextHandler): Listener;
 }
 
 /**
@@ -115,18 +213,35 @@ export interface DesktopAgent {
    * Launches/links to an app by name.
    *
    * If a Context object is passed in, this object will be provided to the opened application via a contextListener.
+   * The context is delivered once the opened application has connected and added a context listener accepting it.
    * The Context argument is functionally equivalent to opening the target app with no context and broadcasting the context directly to it.
    *
    * If opening errors, it returns an `Error` with a string from the `OpenError` enumeration.
    *
+   * Resolves with the metadata of the opened instance, which can be used to target it later.
+   * Passing the metadata of a running instance (with its `instanceId`) does not start a new instance,
+   * but delivers the context to that instance.
+   *
    *  ```javascript
    *     //no context
    *     agent.open('myApp');
    *     //with context
    *     agent.open('myApp', context);
+   *     //keep talking to the opened instance
+   *     const instance = await agent.open('myApp');
+   *     agent.raiseIntent('ViewChart', context, instance);
+   * ```
+   */
+  open(app: TargetApp, context?: Context): Promise<AppMetadata>;
+
+  /**
+   * Finds the running instances of an app, on all platforms or on the platform given with the app.
+   * ```javascript
+   * const [blotter] = await agent.findInstances("Blotter");
+   * await agent.raiseIntent("ViewTrades", context, blotter);
    * ```
    */
-  open(name: string, context?: Context): Promise<void>;
+  findInstances(app: TargetApp): Promise<AppMetadata[]>;
 
   /**
    * Find out more information about a particular intent by passing its name, and optionally its context.
@@ -190,11 +305,12 @@ export interface DesktopAgent {
 
   /**
    * Publishes context to other apps on the desktop.
+   * Resolves with the peers the context was delivered to, once every delivery has succeeded, failed or timed out.
    * ```javascript
    *  agent.broadcast(context);
    * ```
    */
-  broadcast(context: Context): void;
+  broadcast(context: Context): Promise<DeliveryReport>;
 
   /**
    * Raises an intent to the desktop agent to resolve.
@@ -205,15 +321,62 @@ export interface DesktopAgent {
    * agent.raiseIntent("StartChat", newContext, intentR.source);
    * ```
    */
-  raiseIntent(intent: string, context: Context, target?: string): Promise<IntentResolution>;
+  raiseIntent(intent: string, context: Context, target?: TargetApp): Promise<IntentResolution>;
 
   /**
    * Adds a listener for incoming Intents from the Agent.
+   * The value returned by the handler, or the value its returned Promise resolves to,
+   * is provided to the app which raised the intent as `IntentResolution.data`.
+   * ```javascript
+   * agent.addIntentListener("ViewChart", async (context) => {
+   *   const chart = await openChart(context);
+   *   return {chartId: chart.id};
+   * });
+   * ```
    */
-  addIntentListener(intent: string, handler: (context: Context) => void): Listener;
+  addIntentListener(intent: string, handler: (context: Context) => any): Listener;
 
   /**
    * Adds a listener for incoming context broadcast from the Desktop Agent.
+   * If a context type is passed, only context of that type is delivered to the handler.
+   * ```javascript
+   * agent.addContextListener("fdc3.instrument", (instrument) => showChart(instrument.id.ticker));
+   * ```
+   */
+  addContextListener(handler: ContextHandler): Listener;
+  addContextListener(contextType: string, handler: ContextHandler): Listener;
+
+  /**
+   * Retrieves the system channels the app can join.
+   * ```javascript
+   * const redChannel = (await agent.getSystemChannels()).find((channel) => channel.id === "red");
+   * ```
+   */
+  getSystemChannels(): Promise<Channel[]>;
+
+  /**
+   * Returns the app channel with the given id, creating it if it does not exist.
+   *
+   * If the channel cannot be created, the promise is rejected with an `Error` with a string from the `ChannelError` enumeration.
+   */
+  getOrCreateChannel(channelId: string): Promise<Channel>;
+
+  /**
+   * Joins the app to a channel. While joined, `broadcast` publishes to the channel and
+   * the listeners added with `addContextListener` receive the context broadcast on it,
+   * starting with the current context of the channel.
+   *
+   * If the channel is not known, the promise is rejected with an `Error` with a string from the `ChannelError` enumeration.
+   */
+  joinChannel(channelId: string): Promise<void>;
+
+  /**
+   * Returns the channel the app has joined, or null if it has not joined any.
+   */
+  getCurrentChannel(): Promise<Channel | null>;
+
+  /**
+   * Removes the app from the channel it has joined.
    */
-  addContextListener(handler: (context: Context) => void): Listener;
+  leaveCurrentChannel(): Promise<void>;
 }
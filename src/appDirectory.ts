@@ -0,0 +1,138 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AppDirectoryApplication,
+  AppDirectoryConfig,
+  AppDirectoryIntent,
+  AppDirectoryIntentMatch,
+  AppDirectoryLoadFailure
+} from "./interfaces/app-directory";
+import {ValidationError} from "./errors";
+
+declare const require: (module: string) => any;
+
+/**
+ * Catalog of the applications and of the intents they declare, read once from an FDC3 App Directory source.
+ * Failed loads are written to the log and retried on the next lookup.
+ */
+export default class AppDirectory {
+  private config: AppDirectoryConfig;
+  private applications: Promise<AppDirectoryApplication[]>;
+  private log: (failure: AppDirectoryLoadFailure) => void;
+
+  constructor(config: AppDirectoryConfig) {
+    if (!config.url && !config.file && !config.applications) {
+      throw new ValidationError("App directory requires url, file or applications");
+    }
+    this.config = config;
+    this.log = config.log || ((failure: AppDirectoryLoadFailure) => console.warn(failure.message));
+  }
+
+  public getApplications(): Promise<AppDirectoryApplication[]> {
+    if (!this.applications) {
+      this.applications = this.load()
+        .then((applications: AppDirectoryApplication[]) => applications
+          .filter((application: AppDirectoryApplication) => application && application.appId && application.name))
+        .catch((error) => {
+          this.applications = undefined;
+          this.writeLog(error);
+          throw error;
+        });
+    }
+    return this.applications;
+  }
+
+  /**
+   * Finds an application by its appId or by its name.
+   */
+  public async findApplication(app: string): Promise<AppDirectoryApplication> {
+    const applications: AppDirectoryApplication[] = await this.getApplications();
+    return applications.find((application: AppDirectoryApplication) => application.appId === app) ||
+      applications.find((application: AppDirectoryApplication) => application.name === app);
+  }
+
+  /**
+   * Finds the applications declaring the intent, optionally for a context type.
+   */
+  public async findApplicationsByIntent(intent: string, contextType?: string): Promise<AppDirectoryApplication[]> {
+    const applications: AppDirectoryApplication[] = await this.getApplications();
+    return applications.filter((application: AppDirectoryApplication) => (application.intents || [])
+      .some((appIntent: AppDirectoryIntent) => appIntent.name === intent && this.acceptsContextType(appIntent, contextType)));
+  }
+
+  /**
+   * Finds the intents declared for a context type, together with the applications declaring them.
+   * Intents declared without contexts accept any type, as in findApplicationsByIntent().
+   */
+  public async findIntentsByContextType(contextType: string): Promise<AppDirectoryIntentMatch[]> {
+    const applications: AppDirectoryApplication[] = await this.getApplications();
+    const intents: AppDirectoryIntentMatch[] = [];
+    for (const application of applications) {
+      for (const appIntent of application.intents || []) {
+        if (this.acceptsContextType(appIntent, contextType)) {
+          intents.push({intent: appIntent, application});
+        }
+      }
+    }
+    return intents;
+  }
+
+  private acceptsContextType(appIntent: AppDirectoryIntent, contextType?: string): boolean {
+    return !contextType || !appIntent.contexts || appIntent.contexts.length === 0 || appIntent.contexts.indexOf(contextType) !== -1;
+  }
+
+  private writeLog(error: any): void {
+    const source: string = this.config.url || this.config.file;
+    try {
+      this.log({
+        source,
+        error,
+        message: `Unable to load the app directory from "${source}": ${error && error.message ? error.message : error}`
+      });
+    } catch (logError) {
+      // A failing log must not fail the lookup differently.
+    }
+  }
+
+  private async load(): Promise<AppDirectoryApplication[]> {
+    if (this.config.applications) {
+      return this.config.applications;
+    }
+
+    let content: any;
+    if (this.config.url) {
+      if (typeof fetch !== "function") {
+        throw new Error("Loading the app directory from a url requires fetch");
+      }
+      const response: Response = await fetch(this.config.url, {headers: {Accept: "application/json"}});
+      if (!response.ok) {
+        throw new Error(`App directory request failed with status ${response.status}`);
+      }
+      content = await response.json();
+    } else {
+      // The browser bundle gets an empty fs module, see webpack.config.js.
+      const fs = require("fs");
+      if (!fs || typeof fs.readFileSync !== "function") {
+        throw new Error("Loading the app directory from a file requires Node.js");
+      }
+      content = JSON.parse(fs.readFileSync(this.config.file, "utf8"));
+    }
+
+    return Array.isArray(content) ? content : (content && content.applications) || [];
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Channel, Context, ContextHandler, DeliveryReport, DisplayMetadata, Listener} from "../interfaces/interface";
+import Utils from "../utils";
+import ChannelManager from "./channelManager";
+
+export default class ChannelImpl implements Channel {
+  public readonly id: string;
+  public readonly type: "system" | "app";
+  public readonly displayMetadata?: DisplayMetadata;
+  private channelManager: ChannelManager;
+
+  constructor(id: string, type: "system" | "app", channelManager: ChannelManager, displayMetadata?: DisplayMetadata) {
+    this.id = id;
+    this.type = type;
+    this.displayMetadata = displayMetadata;
+    this.channelManager = channelManager;
+  }
+
+  public broadcast(context: Context): Promise<DeliveryReport> {
+    return this.channelManager.broadcast(this.id, context);
+  }
+
+  public getCurrentContext(): Promise<Context | null> {
+    return this.channelManager.getCurrentContext(this.id);
+  }
+
+  public addContextListener(handler: ContextHandler): Listener;
+  public addContextListener(contextType: string, handler: ContextHandler): Listener;
+  public addContextListener(contextTypeOrHandler: string | ContextHandler, handler?: ContextHandler): Listener {
+    const listenerArgs = Utils.getContextListenerArgs(contextTypeOrHandler, handler);
+    return this.channelManager.addContextListener(this.id, listenerArgs.contextType, listenerArgs.handler);
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {default as CallbackRegistryFactory, CallbackRegistry} from "callback-registry";
+
+import {
+  Channel,
+  ChannelError,
+  Context,
+  ContextHandler,
+  ContextMetadata,
+  Delivery,
+  DeliveryReport,
+  DisplayMetadata,
+  Listener
+} from "../interfaces/interface";
+import {InteropPeerDescriptor, Method, MethodImplementation, Platform, RegisteredMethod} from "../interfaces/client-api";
+import {PolicyDenial} from "../interfaces/config";
+import {BusDisposed, ChannelFailure, PolicyDenied, ValidationError} from "../errors";
+import Utils from "../utils";
+import MethodRegistry from "../methodRegistry";
+import Protocol from "../protocol";
+import PolicyEngine from "../policyEngine";
+import ContextValidator from "../contextValidator";
+import SeenMessages from "../seenMessages";
+import ChannelImpl from "./channelImpl";
+
+/**
+ * Context broadcast on a channel, as sent between the peers.
+ */
+interface ChannelMessage {
+  id: string;
+  channel: string;
+  context: Context;
+  timestamp: number;
+}
+
+const SYSTEM_CHANNELS: Array<{id: string, displayMetadata: DisplayMetadata}> = [
+  {id: "red", displayMetadata: {name: "Red", color: "#FF0000"}},
+  {id: "orange", displayMetadata: {name: "Orange", color: "#FF8000"}},
+  {id: "yellow", displayMetadata: {name: "Yellow", color: "#FFFF00"}},
+  {id: "green", displayMetadata: {name: "Green", color: "#00FF00"}},
+  {id: "blue", displayMetadata: {name: "Blue", color: "#0000FF"}},
+  {id: "purple", displayMetadata: {name: "Purple", color: "#FF00FF"}}
+];
+
+const CURRENT_CONTEXT_TIMEOUT: number = 2000;
+
+/**
+ * Keeps the channels of a bus and carries their traffic over every connected platform.
+ *
+ * Each bus registers two methods per platform: one receiving the context broadcast on any channel
+ * and one answering the current context of a channel, so that apps which join late can catch up.
+ */
+export default class ChannelManager {
+  private getPlatforms: () => Platform[];
+  private getMethodRegistry: (platform: Platform) => MethodRegistry;
+  private onCurrentChannelContext: ContextHandler;
+  private deliveryTimeout: number;
+  private protocol: Protocol;
+  private policy: PolicyEngine;
+  private contextValidator: ContextValidator;
+  private registry: CallbackRegistry = CallbackRegistryFactory();
+  private channels: Map<string, Channel> = new Map();
+  private currentChannel: Channel = null;
+  private lastMessages: Map<string, ChannelMessage> = new Map();
+  private seenMessages: SeenMessages = new SeenMessages();
+  private registration: Promise<void>;
+  private registeredMethods: Map<string, Array<Promise<RegisteredMethod>>> = new Map();
+  private disposed: boolean = false;
+
+  constructor(
+    getPlatforms: () => Platform[],
+    getMethodRegistry: (platform: Platform) => MethodRegistry,
+    onCurrentChannelContext: ContextHandler,
+    deliveryTimeout: number,
+    protocol: Protocol,
+    policy: PolicyEngine,
+    contextValidator: ContextValidator
+  ) {
+    this.getPlatforms = getPlatforms;
+    this.getMethodRegistry = getMethodRegistry;
+    this.onCurrentChannelContext = onCurrentChannelContext;
+    this.deliveryTimeout = deliveryTimeout;
+    this.protocol = protocol;
+    this.policy = policy;
+    this.contextValidator = contextValidator;
+    for (const systemChannel of SYSTEM_CHANNELS) {
+      this.channels.set(systemChannel.id, new ChannelImpl(systemChannel.id, "system", this, systemChannel.displayMetadata));
+    }
+  }
+
+  public async getSystemChannels(): Promise<Channel[]> {
+    this.checkNotDisposed();
+    await this.register();
+    return Array.from(this.channels.values()).filter((channel: Channel) => channel.type === "system");
+  }
+
+  public async getOrCreateChannel(channelId: string): Promise<Channel> {
+    this.checkNotDisposed();
+    Utils.validateChannelId(channelId);
+    try {
+      await this.register();
+    } catch (error) {
+      throw new ChannelFailure(ChannelError.CreationFailed, channelId, undefined, error);
+    }
+
+    if (!this.channels.has(channelId)) {
+      this.channels.set(channelId, new ChannelImpl(channelId, "app", this));
+    }
+    return this.channels.get(channelId);
+  }
+
+  public async joinChannel(channelId: string): Promise<void> {
+    this.checkNotDisposed();
+    Utils.validateChannelId(channelId);
+    if (!this.channels.has(channelId)) {
+      throw new ChannelFailure(ChannelError.NoChannelFound, channelId);
+    }
+    await this.register();
+
+    this.currentChannel = this.channels.get(channelId);
+    const currentContext: Context = await this.getCurrentContext(channelId);
+    if (currentContext && this.currentChannel && this.currentChannel.id === channelId) {
+      this.onCurrentChannelContext(currentContext);
+    }
+  }
+
+  public getCurrentChannel(): Channel {
+    this.checkNotDisposed();
+    return this.currentChannel;
+  }
+
+  public leaveCurrentChannel(): void {
+    this.checkNotDisposed();
+    this.currentChannel = null;
+  }
+
+  public async broadcast(channelId: string, context: Context): Promise<DeliveryReport> {
+    this.checkNotDisposed();
+    if (!context) {
+      throw new ValidationError("Context is mandatory parameter");
+    }
+    Utils.validateContext(context);
+    this.contextValidator.validate(context);
+
+    const message: ChannelMessage = {id: Utils.generateId(), channel: channelId, context, timestamp: Date.now()};
+    this.seenMessages.add(message.id);
+    this.lastMessages.set(channelId, message);
+
+    await this.register();
+    const platformsDeliveries: Delivery[][] = await Promise.all(this.getPlatforms().map(async (platform: Platform) => {
+      let broadcastMethods: Method[];
+      try {
+        broadcastMethods = await this.getMethodRegistry(platform).getMethodsByName(this.protocol.channelBroadcast(platform.name));
+      } catch (error) {
+        return [];
+      }
+      return Promise.all(broadcastMethods
+        .filter((method: Method) => !method.peer || method.peer.id !== platform.platformApi.id)
+        .map((method: Method) => {
+          const denial: PolicyDenial = this.policy.evaluate({
+            operation: "broadcast",
+            application: method.peer ? method.peer.applicationName : undefined,
+            platform: platform.name,
+            contextType: context.type
+          });
+          return denial ? Utils.deniedDelivery(platform, method, denial) : Utils.deliver(platform, method, message, this.deliveryTimeout);
+        }));
+    }));
+
+    return {context, deliveries: [].concat(...platformsDeliveries)};
+  }
+
+  public async getCurrentContext(channelId: string): Promise<Context | null> {
+    this.checkNotDisposed();
+    await this.register();
+
+    const lastMessage: ChannelMessage = this.lastMessages.get(channelId);
+    if (lastMessage) {
+      return lastMessage.context;
+    }
+
+    const peerMessages: ChannelMessage[][] = await Promise.all(this.getPlatforms().map(async (platform: Platform) => {
+      try {
+        const currentContextMethods: Method[] = await this.getMethodRegistry(platform)
+          .getMethodsByName(this.protocol.channelCurrentContext(platform.name));
+        return await Promise.all(currentContextMethods.map(async (method: Method) => {
+          try {
+            const invokeResult = await Utils.withTimeout(platform.platformApi.invoke(method, {channel: channelId}),
+              CURRENT_CONTEXT_TIMEOUT, new Error("Current context request timed out"));
+            return invokeResult.result as ChannelMessage;
+          } catch (error) {
+            return null;
+          }
+        }));
+      } catch (error) {
+        return [];
+      }
+    }));
+
+    const latestMessage: ChannelMessage = [].concat(...peerMessages)
+      .filter((message: ChannelMessage) => message && message.context)
+      .reduce((latest: ChannelMessage, message: ChannelMessage) =>
+        !latest || message.timestamp > latest.timestamp ? message : latest, null);
+
+    if (!latestMessage) {
+      return null;
+    }
+    if (!this.lastMessages.has(channelId)) {
+      this.lastMessages.set(channelId, latestMessage);
+    }
+    return this.lastMessages.get(channelId).context;
+  }
+
+  public addContextListener(channelId: string, contextType: string, handler: ContextHandler): Listener {
+    this.checkNotDisposed();
+    const unsubscribeFunction = this.registry.add(`channel-context-${channelId}`, (context: Context, metadata?: ContextMetadata) => {
+      if (!contextType || context.type === contextType) {
+        handler(context, metadata);
+      }
+    });
+    const unsubscribe: () => Promise<void> = async () => {
+      unsubscribeFunction();
+    };
+
+    this.register().catch(() => undefined);
+
+    return {unsubscribe};
+  }
+
+  public attachPlatform(platform: Platform): void {
+    if (this.registration) {
+      this.registration = this.registration
+        .then(() => this.registerOnPlatform(platform))
+        .catch(() => undefined);
+    }
+  }
+
+  public async detachPlatform(platform: Platform): Promise<void> {
+    const registeredMethods: Array<Promise<RegisteredMethod>> = this.registeredMethods.get(platform.name) || [];
+    this.registeredMethods.delete(platform.name);
+    await Utils.unregisterMethods(registeredMethods);
+  }
+
+  /**
+   * Unregisters the channel methods from every platform and drops all channel listeners.
+   */
+  public async dispose(): Promise<void> {
+    this.disposed = true;
+    this.currentChannel = null;
+    this.registry.clear();
+    await Promise.all(this.getPlatforms().map((platform: Platform) => this.detachPlatform(platform)));
+  }
+
+  private checkNotDisposed(): void {
+    if (this.disposed) {
+      throw new BusDisposed();
+    }
+  }
+
+  private register(): Promise<void> {
+    if (!this.registration) {
+      this.registration = Promise.all(this.getPlatforms().map((platform: Platform) => this.registerOnPlatform(platform)))
+        .then(() => undefined)
+        .catch((error) => {
+          this.registration = undefined;
+          throw error;
+        });
+    }
+    return this.registration;
+  }
+
+  private async registerOnPlatform(platform: Platform): Promise<void> {
+    const broadcastMethod: MethodImplementation = {
+      name: this.protocol.channelBroadcast(platform.name),
+      onInvoke: (message: ChannelMessage, peer: InteropPeerDescriptor) => {
+        const denial: PolicyDenial = this.policy.evaluate({
+          operation: "receiveContext",
+          application: peer ? peer.applicationName : undefined,
+          platform: platform.name,
+          contextType: message && message.context ? message.context.type : undefined
+        });
+        if (denial) {
+          return Promise.reject(new PolicyDenied(denial));
+        }
+        this.receive(message, peer ? {source: Utils.peerToAppMetadata(peer, platform.name)} : undefined);
+        return Promise.resolve();
+      }
+    };
+    const currentContextMethod: MethodImplementation = {
+      name: this.protocol.channelCurrentContext(platform.name),
+      onInvoke: (args: {channel: string}) => {
+        return Promise.resolve(this.lastMessages.get(args.channel) || null);
+      }
+    };
+
+    const registeredMethods: Array<Promise<RegisteredMethod>> = [
+      platform.platformApi.register(broadcastMethod),
+      platform.platformApi.register(currentContextMethod)
+    ];
+    this.registeredMethods.set(platform.name, registeredMethods);
+    await Promise.all(registeredMethods);
+  }
+
+  private receive(message: ChannelMessage, metadata?: ContextMetadata): void {
+    if (!message || !message.id || this.seenMessages.has(message.id)) {
+      return;
+    }
+    this.seenMessages.add(message.id);
+
+    const lastMessage: ChannelMessage = this.lastMessages.get(message.channel);
+    if (!lastMessage || lastMessage.timestamp <= message.timestamp) {
+      this.lastMessages.set(message.channel, message);
+    }
+
+    this.registry.execute(`channel-context-${message.channel}`, message.context, metadata);
+    if (this.currentChannel && this.currentChannel.id === message.channel) {
+      this.onCurrentChannelContext(message.context, metadata);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import AssertionFailure from "./assertionFailure";
+
+/**
+ * The assertions used by the conformance cases. Each failed assertion throws an AssertionFailure.
+ */
+export default class Assert {
+  public static ok(value: any, message: string): void {
+    if (!value) {
+      throw new AssertionFailure(message);
+    }
+  }
+
+  public static equal(actual: any, expected: any, message?: string): void {
+    if (actual !== expected) {
+      throw new AssertionFailure(`${message ? `${message}: ` : ""}expected ${Assert.format(expected)} but got ${Assert.format(actual)}`);
+    }
+  }
+
+  /**
+   * Compares the JSON representation of the values.
+   */
+  public static deepEqual(actual: any, expected: any, message?: string): void {
+    if (Assert.format(actual) !== Assert.format(expected)) {
+      throw new AssertionFailure(`${message ? `${message}: ` : ""}expected ${Assert.format(expected)} but got ${Assert.format(actual)}`);
+    }
+  }
+
+  /**
+   * Passes when the action throws or returns a rejected promise, and returns the error.
+   * When a message is expected, the error message must equal it, e.g. a string from the OpenError enumeration.
+   */
+  public static async rejects(action: () => any, expectedMessage?: string): Promise<Error> {
+    let error: Error;
+    try {
+      await action();
+    } catch (actionError) {
+      error = actionError || new Error(String(actionError));
+    }
+
+    if (!error) {
+      throw new AssertionFailure(`expected ${expectedMessage ? `"${expectedMessage}" ` : ""}rejection but the call succeeded`);
+    }
+    if (expectedMessage && error.message !== expectedMessage) {
+      throw new AssertionFailure(`expected "${expectedMessage}" rejection but got "${error.message}"`);
+    }
+    return error;
+  }
+
+  private static format(value: any): string {
+    try {
+      return JSON.stringify(value);
+    } catch (error) {
+      return String(value);
+    }
+  }
+}
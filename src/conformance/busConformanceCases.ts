@@ -0,0 +1,476 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AppIntent,
+  AppMetadata,
+  Context,
+  Delivery,
+  DeliveryReport,
+  DeliveryStatus,
+  DesktopAgent,
+  Listener
+} from "../interfaces/interface";
+import {InteropPlatform, Platform} from "../interfaces/client-api";
+import {ConformanceApp, ConformanceCase} from "../interfaces/conformance";
+import {ContextValidationFailure, Fdc3BusConfig, PolicyDenial, ProtocolMismatch} from "../interfaces/config";
+import {AppDirectoryConfig, AppDirectoryLoadFailure} from "../interfaces/app-directory";
+import MemoryPlatform from "../memory/memoryPlatform";
+import Assert from "./assert";
+import ConformanceEnvironment from "./conformanceEnvironment";
+import {CONTACT, INSTRUMENT, PLATFORM_A, PLATFORM_B} from "./fixtures";
+
+const INVALID_INSTRUMENT: Context = {type: "fdc3.instrument", id: {ticker: 42 as any}};
+
+/**
+ * The API of the agents created by Fdc3Bus beyond the DesktopAgent interface.
+ */
+type BusAgent = DesktopAgent & {
+  getPlatforms(): Platform[];
+  addPlatform(interopPlatform: InteropPlatform): Promise<Platform>;
+  removePlatform(platformName: string): Promise<void>;
+  dispose(): Promise<void>;
+  onPlatformStatusChanged(callback: (platform: Platform, error?: Error) => void): Listener;
+  onProtocolMismatch(callback: (mismatch: ProtocolMismatch) => void): Listener;
+};
+
+const protocolCases: ConformanceCase[] = [
+  {
+    name: "protocol: talks to the apps through the methods of the configured namespace",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const receivedByOtherNamespace: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {
+        name: "Chart",
+        methods: () => [{name: `Acme.${PLATFORM_A}.ContextListener`, onInvoke: async (context: Context) => received.push(context)}]
+      });
+      await environment.connectApp(platformA, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, receivedByOtherNamespace)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA], {protocol: {namespace: "Acme"}});
+
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the context to reach Chart");
+      Assert.deepEqual(received, [INSTRUMENT], "context received by Chart");
+      Assert.equal(receivedByOtherNamespace.length, 0, "context received by News");
+    }
+  },
+  {
+    name: "protocol: reports the peers using another namespace or an incompatible version, but not the older compatible ones",
+    run: async (environment: ConformanceEnvironment) => {
+      const mismatches: ProtocolMismatch[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const agent: BusAgent = await environment.createAgent([platformA]) as BusAgent;
+      agent.onProtocolMismatch((mismatch: ProtocolMismatch) => mismatches.push(mismatch));
+
+      await environment.connectApp(platformA, {name: "Legacy", methods: (platformName: string) => [environment.contextListener(platformName, [])]});
+      await environment.connectApp(platformA, {
+        name: "Compatible",
+        methods: (platformName: string) => [{
+          name: environment.protocol.methodName(platformName, "Protocol"),
+          onInvoke: async () => ({namespace: environment.protocol.namespace, version: "1.0"})
+        }]
+      });
+      await environment.connectApp(platformA, {
+        name: "Newer",
+        methods: (platformName: string) => [{
+          name: environment.protocol.methodName(platformName, "Protocol"),
+          onInvoke: async () => ({namespace: environment.protocol.namespace, version: "2.0"})
+        }]
+      });
+      await environment.connectApp(platformA, {
+        name: "Acme",
+        methods: () => [{name: `Acme.${PLATFORM_A}.ContextListener`, onInvoke: async () => undefined}]
+      });
+
+      await environment.waitFor(() => mismatches.length >= 2, "the mismatches to be reported");
+      const reported = (name: string) => mismatches.find((mismatch: ProtocolMismatch) => mismatch.peer.name === name);
+      Assert.equal(mismatches.length, 2, "reported mismatches");
+      Assert.ok(reported("Newer") && reported("Newer").version === "2.0", "Newer reported with its version");
+      Assert.ok(reported("Acme") && reported("Acme").namespace === "Acme", "Acme reported with its namespace");
+    }
+  },
+  {
+    name: "protocol: rejects invalid namespaces",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+
+      await Assert.rejects(() => environment.createAgent([platformA], {protocol: {namespace: "Acme.Fdc3"}}));
+      await Assert.rejects(() => environment.createAgent([platformA], {protocol: {namespace: ""}}));
+    }
+  }
+];
+
+const policyCases: ConformanceCase[] = [
+  {
+    name: "policy: does not broadcast the denied context to the denied apps and logs the denials",
+    run: async (environment: ConformanceEnvironment) => {
+      const receivedByChart: Context[] = [];
+      const receivedByNews: Context[] = [];
+      const denials: PolicyDenial[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Chart", methods: (platformName: string) => [environment.contextListener(platformName, receivedByChart)]});
+      await environment.connectApp(platformA, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, receivedByNews)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA], {
+        policy: {
+          rules: [{effect: "deny", name: "no-instruments-to-news", operations: ["broadcast"], applications: ["News"], contextTypes: ["fdc3.*"]}],
+          log: (denial: PolicyDenial) => denials.push(denial)
+        }
+      });
+
+      const report: DeliveryReport = await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => receivedByChart.length > 0, "the context to reach Chart");
+      Assert.equal(receivedByNews.length, 0, "context received by News");
+      Assert.deepEqual(report.deliveries.map((delivery: Delivery) => `${delivery.target.name}: ${delivery.status}`).sort(),
+        [`Chart: ${DeliveryStatus.Success}`, `News: ${DeliveryStatus.Denied}`], "delivery statuses");
+      Assert.equal(denials.length, 1, "logged denials");
+      Assert.equal(denials[0].rule && denials[0].rule.name, "no-instruments-to-news", "denying rule");
+      Assert.deepEqual(denials[0].request, {operation: "broadcast", application: "News", platform: PLATFORM_A, contextType: INSTRUMENT.type},
+        "denied request");
+    }
+  },
+  {
+    name: "policy: rejects raiseIntent and open with PolicyDenied when the app is denied",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.addLauncher(platformA, [{name: "Chart"}]);
+      await environment.connectApp(platformA, {name: "News", methods: () => [environment.intentMethod("ViewNews", INSTRUMENT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA], {
+        policy: {
+          rules: [{effect: "deny", applications: ["News", "Chart"]}],
+          log: () => undefined
+        }
+      });
+
+      Assert.equal((await Assert.rejects(() => agent.raiseIntent("ViewNews", INSTRUMENT))).name, "PolicyDenied", "raiseIntent error");
+      Assert.equal((await Assert.rejects(() => agent.open("Chart"))).name, "PolicyDenied", "open error");
+      Assert.equal((await agent.findInstances({name: "Chart"})).length, 0, "started Chart instances");
+    }
+  },
+  {
+    name: "policy: applies the platform rules to the apps launched from the App Directory to handle an intent",
+    run: async (environment: ConformanceEnvironment) => {
+      const chart: ConformanceApp = {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => "chart")]};
+      const appDirectory: AppDirectoryConfig = {
+        applications: [{appId: "Chart", name: "Chart", intents: [{name: "ViewChart", contexts: [INSTRUMENT.type]}]}]
+      };
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.addLauncher(platformA, []);
+      await environment.addLauncher(platformB, [chart]);
+      const denyOn = (platforms: string[]): Fdc3BusConfig => ({
+        appDirectory,
+        policy: {rules: [{effect: "deny", operations: ["raiseIntent"], platforms}], log: () => undefined}
+      });
+
+      const deniedEverywhere: DesktopAgent = await environment.createAgent([platformA, platformB], denyOn([PLATFORM_A, PLATFORM_B]));
+      Assert.equal((await Assert.rejects(() => deniedEverywhere.raiseIntent("ViewChart", INSTRUMENT))).name, "PolicyDenied", "error");
+      Assert.equal((await deniedEverywhere.findInstances({name: "Chart"})).length, 0, "Chart started although denied on every platform");
+
+      const deniedWhereLaunched: DesktopAgent = await environment.createAgent([platformA, platformB], denyOn([PLATFORM_B]));
+      Assert.equal((await Assert.rejects(() => deniedWhereLaunched.raiseIntent("ViewChart", INSTRUMENT))).name, "PolicyDenied",
+        `error once launched on ${PLATFORM_B}`);
+
+      const allowedWhereLaunched: DesktopAgent = await environment.createAgent([platformA, platformB], denyOn([PLATFORM_A]));
+      Assert.equal((await allowedWhereLaunched.raiseIntent("ViewChart", INSTRUMENT)).data, "chart", "resolution data");
+    }
+  },
+  {
+    name: "policy: rejects the denied context and intents from other apps",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const handled: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const receivingAgent: DesktopAgent = await environment.createAgent([platformA], {
+        policy: {
+          rules: [
+            {effect: "deny", operations: ["receiveContext"], contextTypes: [CONTACT.type]},
+            {effect: "deny", operations: ["receiveIntent"], intents: ["View*"]}
+          ],
+          log: () => undefined
+        }
+      });
+      receivingAgent.addContextListener((context: Context) => received.push(context));
+      receivingAgent.addIntentListener("ViewChart", (context: Context) => handled.push(context));
+      receivingAgent.addIntentListener("StartCall", (context: Context) => handled.push(context));
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A));
+      await environment.waitForMethods(platformA, environment.protocol.intentListener(PLATFORM_A, "ViewChart"));
+      await environment.waitForMethods(platformA, environment.protocol.intentListener(PLATFORM_A, "StartCall"));
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const report: DeliveryReport = await agent.broadcast(CONTACT);
+      Assert.deepEqual(report.deliveries.map((delivery: Delivery) => delivery.status), [DeliveryStatus.Failure], "delivery statuses");
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the context to reach the receiving agent");
+      Assert.deepEqual(received, [INSTRUMENT], "received context");
+
+      await Assert.rejects(() => agent.raiseIntent("ViewChart", INSTRUMENT));
+      await agent.raiseIntent("StartCall", CONTACT);
+      Assert.deepEqual(handled, [CONTACT], "handled intents");
+    }
+  }
+];
+
+const contextValidationCases: ConformanceCase[] = [
+  {
+    name: "contextValidation: rejects the context not matching its schema in strict mode",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.addLauncher(platformA, [{name: "Chart"}]);
+      await environment.connectApp(platformA, {
+        name: "News",
+        methods: (platformName: string) => [environment.contextListener(platformName, received), environment.intentMethod("ViewNews", INSTRUMENT.type)]
+      });
+      const agent: DesktopAgent = await environment.createAgent([platformA], {contextValidation: {mode: "strict"}});
+
+      Assert.equal((await Assert.rejects(() => agent.broadcast(INVALID_INSTRUMENT))).name, "ValidationError", "broadcast error");
+      Assert.equal((await Assert.rejects(() => agent.raiseIntent("ViewNews", INVALID_INSTRUMENT))).name, "ValidationError", "raiseIntent error");
+      Assert.equal((await Assert.rejects(() => agent.open("Chart", INVALID_INSTRUMENT))).name, "ValidationError", "open error");
+      Assert.equal(received.length, 0, "invalid context received by News");
+
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the valid context to reach News");
+    }
+  },
+  {
+    name: "contextValidation: logs the context not matching its schema and sends it in warn mode",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const failures: ContextValidationFailure[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, received)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA], {
+        contextValidation: {mode: "warn", log: (failure: ContextValidationFailure) => failures.push(failure)}
+      });
+
+      await agent.broadcast(INVALID_INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the context to reach News");
+      Assert.equal(failures.length, 1, "logged failures");
+      Assert.equal(failures[0].contextType, INVALID_INSTRUMENT.type, "logged context type");
+      Assert.ok(failures[0].errors.length > 0, "logged violations");
+
+      await agent.broadcast(INSTRUMENT);
+      Assert.equal(failures.length, 1, "logged failures after valid context");
+    }
+  },
+  {
+    name: "contextValidation: does not validate the context when off",
+    run: async (environment: ConformanceEnvironment) => {
+      const failures: ContextValidationFailure[] = [];
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)], {
+        contextValidation: {mode: "off", log: (failure: ContextValidationFailure) => failures.push(failure)}
+      });
+
+      await agent.broadcast(INVALID_INSTRUMENT);
+      Assert.equal(failures.length, 0, "logged failures");
+    }
+  },
+  {
+    name: "contextValidation: validates the context types with a configured schema",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)], {
+        contextValidation: {
+          mode: "strict",
+          schemas: {
+            "acme.order": {type: "object", properties: {quantity: {type: "integer"}, side: {enum: ["buy", "sell"]}}, required: ["quantity"]}
+          }
+        }
+      });
+
+      await agent.broadcast({type: "acme.order", quantity: 100, side: "buy"});
+      await agent.broadcast({type: "acme.unknown", quantity: "any"});
+      await Assert.rejects(() => agent.broadcast({type: "acme.order", side: "buy"}));
+      await Assert.rejects(() => agent.broadcast({type: "acme.order", quantity: 1.5}));
+      await Assert.rejects(() => agent.broadcast({type: "acme.order", quantity: 100, side: "hold"}));
+    }
+  }
+];
+
+const connectionCases: ConformanceCase[] = [
+  {
+    name: "connection: retries with backoff until the platform accepts the connection",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      platformA.failConnect(new Error("Not ready"), 2);
+      const start: number = Date.now();
+
+      await environment.createAgent([platformA], {connection: {initialDelay: 20, backoffFactor: 2, jitter: 0}});
+      Assert.ok(Date.now() - start >= 60, "connected after the delays of the two retries");
+      Assert.equal(platformA.getPeers().length, 1, `peers connected to ${PLATFORM_A}`);
+    }
+  },
+  {
+    name: "connection: gives up after maxAttempts and disconnects from the platforms already connected",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      platformB.failConnect();
+
+      const error: Error = await Assert.rejects(() => environment.createAgent([platformA, platformB], {connection: {initialDelay: 10, maxAttempts: 2}}));
+      Assert.equal(error.name, "PlatformUnavailable", "error");
+      Assert.equal(platformA.getPeers().length, 0, `peers left on ${PLATFORM_A}`);
+      Assert.equal(platformA.getMethods().length, 0, `methods left on ${PLATFORM_A}`);
+    }
+  },
+  {
+    name: "connection: gives up on a platform which does not answer once the timeout has passed",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      platformB.setConnectDelay(2000);
+      const start: number = Date.now();
+
+      const error: Error = await Assert.rejects(() => environment.createAgent([platformA, platformB], {connection: {timeout: 100}}));
+      Assert.equal(error.name, "PlatformUnavailable", "error");
+      Assert.ok(Date.now() - start < 1000, "rejected before the platform answered");
+      Assert.equal(platformA.getPeers().length, 0, `peers left on ${PLATFORM_A}`);
+    }
+  },
+  {
+    name: "connection: starts degraded without the platforms which are down and attaches them once they connect",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      const platformC: MemoryPlatform = environment.createPlatform("PlatformC");
+      await environment.connectApp(platformB, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, received)]});
+      platformB.failConnect(new Error("Not ready"), 1);
+      platformC.setConnectDelay(2000);
+      const start: number = Date.now();
+
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB, platformC],
+        {connection: {startDegraded: true, startupTimeout: 100, initialDelay: 20}});
+      Assert.ok(Date.now() - start < 1000, "started before the unanswering platform connected");
+
+      await environment.waitForMethods(platformB, environment.protocol.methodName(PLATFORM_B, "Protocol"));
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, `the context to reach ${PLATFORM_B}`);
+    }
+  }
+];
+
+const appDirectoryCases: ConformanceCase[] = [
+  {
+    name: "appDirectory: logs the failures to load the directory and keeps finding the running apps",
+    run: async (environment: ConformanceEnvironment) => {
+      const failures: AppDirectoryLoadFailure[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA], {
+        appDirectory: {file: "/nonexistent/appDirectory.json", log: (failure: AppDirectoryLoadFailure) => failures.push(failure)}
+      });
+
+      const appIntent: AppIntent = await agent.findIntent("ViewChart", INSTRUMENT);
+      Assert.deepEqual(appIntent.apps.map((app: AppMetadata) => app.name), ["Chart"], "apps");
+      Assert.equal(failures.length, 1, "logged failures");
+      Assert.equal(failures[0].source, "/nonexistent/appDirectory.json", "failed source");
+    }
+  }
+];
+
+const platformCases: ConformanceCase[] = [
+  {
+    name: "platforms: reports each status change of a platform once",
+    run: async (environment: ConformanceEnvironment) => {
+      const statuses: string[] = [];
+      const errors: Error[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const agent: BusAgent = await environment.createAgent([platformA]) as BusAgent;
+      agent.onPlatformStatusChanged((platform: Platform, error?: Error) => {
+        statuses.push(`${platform.name}: ${platform.connectionStatus}`);
+        errors.push(error);
+      });
+
+      await platformA.dropConnection(undefined, new Error("Lost"));
+      await environment.waitFor(() => statuses.length > 0, "the status change to be reported");
+      Assert.deepEqual(statuses, [`${PLATFORM_A}: Disconnected`], "reported statuses");
+      Assert.equal(errors[0] && errors[0].message, "Lost", "reported error");
+      Assert.deepEqual(agent.getPlatforms().map((platform: Platform) => platform.online), [false], "online platforms");
+    }
+  },
+  {
+    name: "platforms: lists the platforms which are still down in a degraded start and reports them once attached",
+    run: async (environment: ConformanceEnvironment) => {
+      const statuses: string[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      platformB.failConnect(new Error("Not ready"), 1);
+      const agent: BusAgent = await environment.createAgent([platformA, platformB],
+        {connection: {startDegraded: true, initialDelay: 50}}) as BusAgent;
+      agent.onPlatformStatusChanged((platform: Platform) => statuses.push(`${platform.name}: ${platform.connectionStatus}`));
+
+      Assert.deepEqual(agent.getPlatforms().map((platform: Platform) => `${platform.name}: ${platform.connectionStatus}`),
+        [`${PLATFORM_A}: Connected`, `${PLATFORM_B}: Disconnected`], "platforms after the start");
+      await environment.waitFor(() => statuses.length > 0, `${PLATFORM_B} to be attached`);
+      Assert.deepEqual(statuses, [`${PLATFORM_B}: Connected`], "reported statuses");
+      Assert.deepEqual(agent.getPlatforms().map((platform: Platform) => `${platform.name}: ${platform.connectionStatus}`),
+        [`${PLATFORM_A}: Connected`, `${PLATFORM_B}: Connected`], "platforms once attached");
+    }
+  },
+  {
+    name: "platforms: registers the listeners on the added platforms and unregisters them from the removed ones",
+    run: async (environment: ConformanceEnvironment) => {
+      const statuses: string[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      const agent: BusAgent = await environment.createAgent([platformA]) as BusAgent;
+      agent.onPlatformStatusChanged((platform: Platform) => statuses.push(`${platform.name}: ${platform.connectionStatus}`));
+      agent.addContextListener(() => undefined);
+
+      await agent.addPlatform(platformB);
+      Assert.deepEqual(statuses, [`${PLATFORM_B}: Connecting`, `${PLATFORM_B}: Connected`], "reported statuses");
+      await environment.waitForMethods(platformB, environment.protocol.contextListener(PLATFORM_B));
+      await Assert.rejects(() => agent.addPlatform(platformB));
+
+      await agent.removePlatform(PLATFORM_B);
+      Assert.equal(platformB.getPeers().length, 0, `peers left on ${PLATFORM_B}`);
+      Assert.equal(platformB.getMethods().length, 0, `methods left on ${PLATFORM_B}`);
+      Assert.deepEqual(agent.getPlatforms().map((platform: Platform) => platform.name), [PLATFORM_A], "platforms");
+    }
+  },
+  {
+    name: "dispose: disconnects from the platforms, cancels the pending connections and rejects the later calls",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      platformB.failConnect();
+      const agent: BusAgent = await environment.createAgent([platformA], {connection: {initialDelay: 10}}) as BusAgent;
+      const pendingPlatform: Promise<Platform> = agent.addPlatform(platformB);
+
+      await agent.dispose();
+      Assert.equal((await Assert.rejects(() => pendingPlatform)).name, "BusDisposed", "pending addPlatform error");
+      Assert.equal(platformA.getPeers().length, 0, `peers left on ${PLATFORM_A}`);
+      Assert.equal((await Assert.rejects(() => agent.broadcast(INSTRUMENT))).name, "BusDisposed", "broadcast error");
+      Assert.equal((await Assert.rejects(() => agent.getPlatforms())).name, "BusDisposed", "getPlatforms error");
+    }
+  }
+];
+
+/**
+ * The cases of the features configured through Fdc3BusConfig and of the Fdc3Bus API beyond the DesktopAgent interface.
+ * Other DesktopAgent implementations do not support them, so they only run when ConformanceOptions.includeBusCases is set.
+ */
+const busConformanceCases: ConformanceCase[] = [
+  ...protocolCases,
+  ...policyCases,
+  ...contextValidationCases,
+  ...connectionCases,
+  ...appDirectoryCases,
+  ...platformCases
+];
+
+export default busConformanceCases;
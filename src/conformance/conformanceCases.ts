@@ -0,0 +1,768 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AppIntent,
+  AppMetadata,
+  Channel,
+  Context,
+  ContextMetadata,
+  Delivery,
+  DeliveryReport,
+  DeliveryStatus,
+  DesktopAgent,
+  IntentResolution,
+  OpenError,
+  ResolveError
+} from "../interfaces/interface";
+import {InteropPeer, InteropPeerDescriptor, Method} from "../interfaces/client-api";
+import {ConformanceCase} from "../interfaces/conformance";
+import {IntentResolverCandidate} from "../interfaces/config";
+import MemoryPlatform from "../memory/memoryPlatform";
+import Assert from "./assert";
+import ConformanceEnvironment from "./conformanceEnvironment";
+import {CONTACT, INSTRUMENT, PLATFORM_A, PLATFORM_B} from "./fixtures";
+
+const openCases: ConformanceCase[] = [
+  {
+    name: "open: launches the app on the only platform which lists it",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.addLauncher(platformA, []);
+      await environment.addLauncher(platformB, [{name: "Chart"}]);
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      const app: AppMetadata = await agent.open("Chart");
+      Assert.equal(app.name, "Chart", "app name");
+      Assert.equal(app.platform, PLATFORM_B, "app platform");
+    }
+  },
+  {
+    name: "open: launches the app on the platform of the target",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.addLauncher(platformA, [{name: "Chart"}]);
+      await environment.addLauncher(platformB, [{name: "Chart"}]);
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      const app: AppMetadata = await agent.open({name: "Chart", platform: PLATFORM_B});
+      Assert.equal(app.platform, PLATFORM_B, "app platform");
+    }
+  },
+  {
+    name: "open: rejects with AppNotFound when no platform lists the app",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.addLauncher(platformA, [{name: "Chart"}]);
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      await Assert.rejects(() => agent.open("Blotter"), OpenError.AppNotFound);
+    }
+  },
+  {
+    name: "open: rejects with ResolverUnavailable when several platforms list the app",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.addLauncher(platformA, [{name: "Chart"}]);
+      await environment.addLauncher(platformB, [{name: "Chart"}]);
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      await Assert.rejects(() => agent.open("Chart"), OpenError.ResolverUnavailable);
+    }
+  },
+  {
+    name: "open: skips the platforms without ListApplications",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.addLauncher(platformA, [{name: "Chart"}], {listApplications: false});
+      await environment.addLauncher(platformB, [{name: "Chart"}]);
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      const app: AppMetadata = await agent.open("Chart");
+      Assert.equal(app.platform, PLATFORM_B, "app platform");
+    }
+  },
+  {
+    name: "open: delivers the context to the instance the platform reports as started",
+    run: async (environment: ConformanceEnvironment) => {
+      const receivedByOtherInstance: Context[] = [];
+      const receivedByStartedInstance: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await platformA.connect(`${PLATFORM_A}Launcher`, undefined, [
+        {
+          name: environment.protocol.listApplications(PLATFORM_A),
+          onInvoke: async () => [{appId: "Chart", name: "Chart", platformName: PLATFORM_A}]
+        },
+        {
+          name: environment.protocol.startApplication(PLATFORM_A),
+          onInvoke: async () => {
+            // The user starts another instance of the app at the same moment.
+            await environment.connectApp(platformA, {
+              name: "Chart",
+              methods: (platformName: string) => [environment.contextListener(platformName, receivedByOtherInstance)]
+            });
+            const startedPeer: InteropPeer = await environment.connectApp(platformA, {
+              name: "Chart",
+              methods: (platformName: string) => [environment.contextListener(platformName, receivedByStartedInstance)]
+            });
+            return {instanceId: startedPeer.id};
+          }
+        }
+      ]);
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const app: AppMetadata = await agent.open("Chart", INSTRUMENT);
+      Assert.deepEqual(receivedByStartedInstance, [INSTRUMENT], "context received by the started instance");
+      Assert.equal(receivedByOtherInstance.length, 0, "context received by the other instance");
+      Assert.equal(app.instanceId, platformA.getPeers().filter((peer: InteropPeerDescriptor) => peer.applicationName === "Chart")[1].id,
+        "instance id");
+    }
+  },
+  {
+    name: "open: rejects when the platform listing the app has no StartApplication",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.addLauncher(platformA, [{name: "Chart"}], {startApplication: false});
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      await Assert.rejects(() => agent.open("Chart"));
+    }
+  },
+  {
+    name: "open: rejects with ErrorOnLaunch when StartApplication fails",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.addLauncher(platformA, [{name: "Chart"}]);
+      platformA.failMethod(environment.protocol.startApplication(PLATFORM_A));
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      await Assert.rejects(() => agent.open("Chart"), OpenError.ErrorOnLaunch);
+    }
+  },
+  {
+    name: "open: delivers the context to the launched app",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.addLauncher(platformA, [
+        {name: "Chart", methods: (platformName: string) => [environment.contextListener(platformName, received)]}
+      ]);
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const app: AppMetadata = await agent.open("Chart", INSTRUMENT);
+      Assert.deepEqual(received, [INSTRUMENT], "context received by the app");
+      Assert.ok(app.instanceId, "the launched instance has an id");
+    }
+  },
+  {
+    name: "open: resolves without context even when the app does not join the platform",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await platformA.connect("Launcher", undefined, [
+        {name: environment.protocol.listApplications(PLATFORM_A), onInvoke: async () => [{appId: "Chart", name: "Chart", platformName: PLATFORM_A}]},
+        {name: environment.protocol.startApplication(PLATFORM_A), onInvoke: async () => undefined}
+      ]);
+      const agent: DesktopAgent = await environment.createAgent([platformA], {appLaunchTimeout: 1000});
+
+      const app: AppMetadata = await agent.open("Chart");
+      Assert.equal(app.name, "Chart", "app name");
+      Assert.equal(app.instanceId, undefined, "instance id");
+    }
+  },
+  {
+    name: "open: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.open(undefined));
+      await Assert.rejects(() => agent.open(42 as any));
+      await Assert.rejects(() => agent.open({name: 42} as any));
+      await Assert.rejects(() => agent.open("Chart", {} as Context));
+      await Assert.rejects(() => agent.open("Chart", {type: 42} as any));
+    }
+  }
+];
+
+const findInstancesCases: ConformanceCase[] = [
+  {
+    name: "findInstances: lists the running instances of the app on every platform",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart"});
+      await environment.connectApp(platformB, {name: "Chart"});
+      await environment.connectApp(platformB, {name: "Blotter"});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      const instances: AppMetadata[] = await agent.findInstances("Chart");
+      Assert.deepEqual(instances.map((instance: AppMetadata) => instance.platform).sort(), [PLATFORM_A, PLATFORM_B], "instance platforms");
+      Assert.ok(instances.every((instance: AppMetadata) => instance.name === "Chart" && !!instance.instanceId), "instances of Chart with ids");
+    }
+  },
+  {
+    name: "findInstances: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.findInstances(undefined));
+      await Assert.rejects(() => agent.findInstances(42 as any));
+    }
+  }
+];
+
+const findIntentCases: ConformanceCase[] = [
+  {
+    name: "findIntent: lists the apps handling the intent on every platform",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      await environment.connectApp(platformB, {name: "Charts", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      const appIntent: AppIntent = await agent.findIntent("ViewChart");
+      Assert.equal(appIntent.intent.name, "ViewChart", "intent name");
+      Assert.deepEqual(appIntent.apps.map((app: AppMetadata) => app.name).sort(), ["Chart", "Charts"], "apps");
+    }
+  },
+  {
+    name: "findIntent: lists only the apps accepting the context type",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("View", INSTRUMENT.type)]});
+      await environment.connectApp(platformA, {name: "Crm", methods: () => [environment.intentMethod("View", CONTACT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const appIntent: AppIntent = await agent.findIntent("View", INSTRUMENT);
+      Assert.deepEqual(appIntent.apps.map((app: AppMetadata) => app.name), ["Chart"], "apps");
+    }
+  },
+  {
+    name: "findIntent: lists no apps when no app handles the intent",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const appIntent: AppIntent = await agent.findIntent("StartChat");
+      Assert.deepEqual(appIntent.apps, [], "apps");
+    }
+  },
+  {
+    name: "findIntent: answers from the platforms which are still connected",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      await environment.connectApp(platformB, {name: "Charts", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      await platformA.dropConnection();
+      const appIntent: AppIntent = await agent.findIntent("ViewChart");
+      Assert.deepEqual(appIntent.apps.map((app: AppMetadata) => app.name), ["Charts"], "apps");
+    }
+  },
+  {
+    name: "findIntent: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.findIntent(undefined));
+      await Assert.rejects(() => agent.findIntent(42 as any));
+      await Assert.rejects(() => agent.findIntent("ViewChart", {type: 42} as any));
+    }
+  }
+];
+
+const findIntentsByContextCases: ConformanceCase[] = [
+  {
+    name: "findIntentsByContext: lists the intents accepting the context type with their apps",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type)]});
+      await environment.connectApp(platformB, {name: "News", methods: () => [environment.intentMethod("ViewNews", INSTRUMENT.type)]});
+      await environment.connectApp(platformB, {name: "Crm", methods: () => [environment.intentMethod("StartChat", CONTACT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      const appIntents: AppIntent[] = await agent.findIntentsByContext(INSTRUMENT);
+      Assert.deepEqual(appIntents.map((appIntent: AppIntent) => appIntent.intent.name).sort(), ["ViewChart", "ViewNews"], "intents");
+      const viewNews: AppIntent = appIntents.find((appIntent: AppIntent) => appIntent.intent.name === "ViewNews");
+      Assert.deepEqual(viewNews.apps.map((app: AppMetadata) => app.name), ["News"], "ViewNews apps");
+    }
+  },
+  {
+    name: "findIntentsByContext: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.findIntentsByContext("fdc3.instrument" as any));
+      await Assert.rejects(() => agent.findIntentsByContext({type: 42} as any));
+    }
+  }
+];
+
+const broadcastCases: ConformanceCase[] = [
+  {
+    name: "broadcast: delivers the context to the listening apps on every platform",
+    run: async (environment: ConformanceEnvironment) => {
+      const receivedA: Context[] = [];
+      const receivedB: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart", methods: (platformName: string) => [environment.contextListener(platformName, receivedA)]});
+      await environment.connectApp(platformB, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, receivedB)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => receivedA.length > 0 && receivedB.length > 0, "the context to reach both platforms");
+      Assert.deepEqual(receivedA, [INSTRUMENT], `context received on ${PLATFORM_A}`);
+      Assert.deepEqual(receivedB, [INSTRUMENT], `context received on ${PLATFORM_B}`);
+    }
+  },
+  {
+    name: "broadcast: skips the listeners which do not accept the context type",
+    run: async (environment: ConformanceEnvironment) => {
+      const receivedInstruments: Context[] = [];
+      const receivedContacts: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {
+        name: "Chart",
+        methods: (platformName: string) => [environment.contextListener(platformName, receivedInstruments, INSTRUMENT.type)]
+      });
+      await environment.connectApp(platformA, {
+        name: "Crm",
+        methods: (platformName: string) => [environment.contextListener(platformName, receivedContacts, CONTACT.type)]
+      });
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => receivedInstruments.length > 0, "the context to reach Chart");
+      Assert.equal(receivedInstruments.length, 1, "instruments received by Chart");
+      Assert.equal(receivedContacts.length, 0, "instruments received by Crm");
+    }
+  },
+  {
+    name: "broadcast: does not deliver the context back to the broadcasting agent",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+      agent.addContextListener((context: Context) => received.push(context));
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A));
+
+      await agent.broadcast(INSTRUMENT);
+      Assert.equal(received.length, 0, "context received by the broadcasting agent");
+    }
+  },
+  {
+    name: "broadcast: reports the delivery as failed when a listener of the receiving agent rejects",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const receivingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      receivingAgent.addContextListener(() => undefined);
+      receivingAgent.addContextListener(() => Promise.reject(new Error("Listener failed")));
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A));
+
+      const report: DeliveryReport = await agent.broadcast(INSTRUMENT);
+      Assert.deepEqual(report.deliveries.map((delivery: Delivery) => delivery.status), [DeliveryStatus.Failure], "delivery statuses");
+    }
+  },
+  {
+    name: "broadcast: reaches the platforms which are still connected",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformB, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, received)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      await platformA.dropConnection();
+      await agent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, `the context to reach ${PLATFORM_B}`);
+      Assert.deepEqual(received, [INSTRUMENT], `context received on ${PLATFORM_B}`);
+    }
+  },
+  {
+    name: "broadcast: bridging agents deliver the context once to the other platforms and never back to its publisher",
+    run: async (environment: ConformanceEnvironment) => {
+      const receivedByApp: Context[] = [];
+      const receivedByAgent: Context[] = [];
+      const receivedByPublisher: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.createAgent([platformA, platformB], {bridge: {}});
+      await environment.createAgent([platformA, platformB], {bridge: {}});
+      await environment.connectApp(platformB, {name: "News", methods: (platformName: string) => [environment.contextListener(platformName, receivedByApp)]});
+      const listeningAgent: DesktopAgent = await environment.createAgent([platformB]);
+      listeningAgent.addContextListener((context: Context) => receivedByAgent.push(context));
+      const publishingAgent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+      publishingAgent.addContextListener((context: Context) => receivedByPublisher.push(context));
+      const singlePlatformAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const isBridgeMethod = (platformName: string) => (method: Method) => !!environment.protocol.getBridgeId(method, platformName);
+      await environment.waitForMethods(platformA, isBridgeMethod(PLATFORM_A), 2);
+      await environment.waitForMethods(platformB, isBridgeMethod(PLATFORM_B), 2);
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A), 3);
+      await environment.waitForMethods(platformB, environment.protocol.contextListener(PLATFORM_B), 4);
+
+      await singlePlatformAgent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => receivedByApp.length > 0 && receivedByAgent.length > 0, `the context to be bridged to ${PLATFORM_B}`);
+      Assert.deepEqual(receivedByApp, [INSTRUMENT], `context received by the app on ${PLATFORM_B}, without the bridge tag`);
+      Assert.equal(receivedByAgent.length, 1, `context received by the agent on ${PLATFORM_B}`);
+
+      await publishingAgent.broadcast(CONTACT);
+      await environment.waitFor(() => receivedByApp.length > 1 && receivedByAgent.length > 1, `the context to reach ${PLATFORM_B}`);
+      Assert.deepEqual(receivedByApp, [INSTRUMENT, CONTACT], `context received by the app on ${PLATFORM_B}`);
+      Assert.equal(receivedByAgent.length, 2, `context received by the agent on ${PLATFORM_B}`);
+      Assert.equal(receivedByPublisher.filter((context: Context) => context.type === CONTACT.type).length, 0,
+        "context received back by the publishing agent");
+    }
+  },
+  {
+    name: "broadcast: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.broadcast(undefined));
+      await Assert.rejects(() => agent.broadcast({} as Context));
+      await Assert.rejects(() => agent.broadcast({type: 42} as any));
+      await Assert.rejects(() => agent.broadcast({type: "fdc3.instrument", name: 42} as any));
+    }
+  }
+];
+
+const raiseIntentCases: ConformanceCase[] = [
+  {
+    name: "raiseIntent: resolves with the data returned by the handling app",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {
+        name: "Chart",
+        methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, (context: Context) => ({ticker: context.id.ticker}))]
+      });
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const resolution: IntentResolution = await agent.raiseIntent("ViewChart", INSTRUMENT);
+      Assert.deepEqual(resolution.data, {ticker: "AAPL"}, "resolution data");
+      const source: AppMetadata = typeof resolution.source === "string" ? {name: resolution.source} : resolution.source;
+      Assert.equal(source.name, "Chart", "resolution source");
+    }
+  },
+  {
+    name: "raiseIntent: raises the intent to the target app",
+    run: async (environment: ConformanceEnvironment) => {
+      const handledBy: string[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => handledBy.push("Chart"))]});
+      await environment.connectApp(platformB, {name: "Charts", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => handledBy.push("Charts"))]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+
+      await agent.raiseIntent("ViewChart", INSTRUMENT, "Charts");
+      Assert.deepEqual(handledBy, ["Charts"], "apps which handled the intent");
+    }
+  },
+  {
+    name: "raiseIntent: raises the intent without context",
+    run: async (environment: ConformanceEnvironment) => {
+      const handled: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, (context: Context) => {
+        handled.push(context);
+        return "chart";
+      })]});
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      const resolution: IntentResolution = await agent.raiseIntent("ViewChart", undefined);
+      Assert.equal(resolution.data, "chart", "resolution data");
+      Assert.equal(handled.length, 1, "handled intents");
+    }
+  },
+  {
+    name: "raiseIntent: lets the resolver choose when several apps handle the intent",
+    run: async (environment: ConformanceEnvironment) => {
+      const handledBy: string[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => handledBy.push("Chart"))]});
+      await environment.connectApp(platformB, {name: "Charts", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => handledBy.push("Charts"))]});
+      const agent: DesktopAgent = await environment.createAgent([platformA, platformB], {
+        resolver: async (intent: string, context: Context, candidates: IntentResolverCandidate[]) =>
+          candidates.find((candidate: IntentResolverCandidate) => candidate.appName === "Charts")
+      });
+
+      await agent.raiseIntent("ViewChart", INSTRUMENT);
+      Assert.deepEqual(handledBy, ["Charts"], "apps which handled the intent");
+    }
+  },
+  {
+    name: "raiseIntent: tells apart the instances of the same app offered to the resolver",
+    run: async (environment: ConformanceEnvironment) => {
+      const handledBy: string[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Chart", methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => handledBy.push("first"))]});
+      const secondChart = await environment.connectApp(platformA, {
+        name: "Chart",
+        methods: () => [environment.intentMethod("ViewChart", INSTRUMENT.type, () => handledBy.push("second"))]
+      });
+      const agent: DesktopAgent = await environment.createAgent([platformA], {
+        resolver: async (intent: string, context: Context, candidates: IntentResolverCandidate[]) =>
+          ({...candidates.find((candidate: IntentResolverCandidate) => candidate.instanceId === secondChart.id)})
+      });
+
+      const resolution: IntentResolution = await agent.raiseIntent("ViewChart", INSTRUMENT);
+      Assert.deepEqual(handledBy, ["second"], "instances which handled the intent");
+      Assert.equal((resolution.source as AppMetadata).instanceId, secondChart.id, "resolution source instance");
+    }
+  },
+  {
+    name: "raiseIntent: rejects with NoAppsFound when no app handles the intent",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      await environment.connectApp(platformA, {name: "Crm", methods: () => [environment.intentMethod("ViewChart", CONTACT.type)]});
+      const agent: DesktopAgent = await environment.createAgent([platformA]);
+
+      await Assert.rejects(() => agent.raiseIntent("StartChat", CONTACT), ResolveError.NoAppsFound);
+      await Assert.rejects(() => agent.raiseIntent("ViewChart", INSTRUMENT), ResolveError.NoAppsFound);
+    }
+  },
+  {
+    name: "raiseIntent: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.raiseIntent(undefined, INSTRUMENT));
+      await Assert.rejects(() => agent.raiseIntent(42 as any, INSTRUMENT));
+      await Assert.rejects(() => agent.raiseIntent("ViewChart", {type: 42} as any));
+      await Assert.rejects(() => agent.raiseIntent("ViewChart", INSTRUMENT, 42 as any));
+      await Assert.rejects(() => agent.raiseIntent("ViewChart", INSTRUMENT, {name: 42} as any));
+    }
+  }
+];
+
+const listenerCases: ConformanceCase[] = [
+  {
+    name: "addIntentListener: handles the intents raised by other agents",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const raisingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const handlingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      handlingAgent.addIntentListener("ViewChart", (context: Context) => ({ticker: context.id.ticker}));
+      await environment.waitForMethods(platformA, environment.protocol.intentListener(PLATFORM_A, "ViewChart"));
+
+      const resolution: IntentResolution = await raisingAgent.raiseIntent("ViewChart", INSTRUMENT);
+      Assert.deepEqual(resolution.data, {ticker: "AAPL"}, "resolution data");
+    }
+  },
+  {
+    name: "addIntentListener: stops handling intents once unsubscribed",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const raisingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const handlingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listener = handlingAgent.addIntentListener("ViewChart", () => undefined);
+      await environment.waitForMethods(platformA, environment.protocol.intentListener(PLATFORM_A, "ViewChart"));
+
+      await listener.unsubscribe();
+      await Assert.rejects(() => raisingAgent.raiseIntent("ViewChart", INSTRUMENT), ResolveError.NoAppsFound);
+    }
+  },
+  {
+    name: "addIntentListener: rejects the raised intent when any listener throws or rejects",
+    run: async (environment: ConformanceEnvironment) => {
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const raisingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const handlingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const throwingListener = handlingAgent.addIntentListener("ViewChart", () => {
+        throw new Error("Chart failed");
+      });
+      handlingAgent.addIntentListener("ViewChart", async () => "chart");
+      await environment.waitForMethods(platformA, environment.protocol.intentListener(PLATFORM_A, "ViewChart"));
+
+      await Assert.rejects(() => raisingAgent.raiseIntent("ViewChart", INSTRUMENT), "Chart failed");
+
+      await throwingListener.unsubscribe();
+      handlingAgent.addIntentListener("ViewChart", () => Promise.reject(new Error("Chart unavailable")));
+      await Assert.rejects(() => raisingAgent.raiseIntent("ViewChart", INSTRUMENT), "Chart unavailable");
+    }
+  },
+  {
+    name: "addIntentListener: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.addIntentListener(undefined, () => undefined));
+      await Assert.rejects(() => agent.addIntentListener(42 as any, () => undefined));
+      await Assert.rejects(() => agent.addIntentListener("ViewChart", undefined));
+      await Assert.rejects(() => agent.addIntentListener("ViewChart", "handler" as any));
+    }
+  },
+  {
+    name: "addContextListener: receives the context broadcast by other agents with its source",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Array<{context: Context, metadata?: ContextMetadata}> = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const broadcastingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listeningAgent: DesktopAgent = await environment.createAgent([platformA]);
+      listeningAgent.addContextListener((context: Context, metadata?: ContextMetadata) => received.push({context, metadata}));
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A));
+
+      await broadcastingAgent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the context to reach the listening agent");
+      Assert.equal(received.length, 1, "received context");
+      Assert.deepEqual(received[0].context, INSTRUMENT, "received context");
+      Assert.ok(received[0].metadata && received[0].metadata.source && received[0].metadata.source.platform === PLATFORM_A, "context source");
+    }
+  },
+  {
+    name: "addContextListener: receives only the context of the given type",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const broadcastingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listeningAgent: DesktopAgent = await environment.createAgent([platformA]);
+      listeningAgent.addContextListener(CONTACT.type, (context: Context) => received.push(context));
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A));
+
+      await broadcastingAgent.broadcast(INSTRUMENT);
+      await broadcastingAgent.broadcast(CONTACT);
+      await environment.waitFor(() => received.length > 0, "the context to reach the listening agent");
+      Assert.deepEqual(received, [CONTACT], "received context");
+    }
+  },
+  {
+    name: "addContextListener: stops receiving context once unsubscribed",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const broadcastingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listeningAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listener = listeningAgent.addContextListener((context: Context) => received.push(context));
+      await environment.waitForMethods(platformA, environment.protocol.contextListener(PLATFORM_A));
+
+      await listener.unsubscribe();
+      await broadcastingAgent.broadcast(INSTRUMENT);
+      Assert.equal(received.length, 0, "received context");
+    }
+  },
+  {
+    name: "addContextListener: rejects invalid arguments",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.addContextListener(undefined));
+      await Assert.rejects(() => agent.addContextListener("fdc3.instrument", undefined));
+      await Assert.rejects(() => agent.addContextListener(42 as any, () => undefined));
+    }
+  }
+];
+
+const channelCases: ConformanceCase[] = [
+  {
+    name: "getSystemChannels: returns the system channels",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      const channels: Channel[] = await agent.getSystemChannels();
+      Assert.ok(channels.length > 0, "there are system channels");
+      Assert.ok(channels.every((channel: Channel) => channel.type === "system"), "all channels are system channels");
+    }
+  },
+  {
+    name: "joinChannel: routes the broadcast context to the agents joined to the channel",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const platformB: MemoryPlatform = environment.createPlatform(PLATFORM_B);
+      const broadcastingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listeningAgent: DesktopAgent = await environment.createAgent([platformA, platformB]);
+      const channelId: string = (await broadcastingAgent.getSystemChannels())[0].id;
+      await broadcastingAgent.joinChannel(channelId);
+      await listeningAgent.joinChannel(channelId);
+      listeningAgent.addContextListener((context: Context) => received.push(context));
+
+      await broadcastingAgent.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the context to reach the channel members");
+      Assert.deepEqual(received, [INSTRUMENT], "received context");
+      Assert.equal((await listeningAgent.getCurrentChannel()).id, channelId, "current channel");
+    }
+  },
+  {
+    name: "leaveCurrentChannel: leaves the joined channel",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+      await agent.joinChannel((await agent.getSystemChannels())[0].id);
+
+      await agent.leaveCurrentChannel();
+      Assert.equal(await agent.getCurrentChannel(), null, "current channel");
+    }
+  },
+  {
+    name: "joinChannel: rejects with NoChannelFound for unknown channels",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.joinChannel("no-such-channel"), "NoChannelFound");
+      await Assert.rejects(() => agent.joinChannel(undefined));
+    }
+  },
+  {
+    name: "getOrCreateChannel: shares the app channel context between the agents",
+    run: async (environment: ConformanceEnvironment) => {
+      const received: Context[] = [];
+      const platformA: MemoryPlatform = environment.createPlatform(PLATFORM_A);
+      const broadcastingAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const listeningAgent: DesktopAgent = await environment.createAgent([platformA]);
+      const broadcastingChannel: Channel = await broadcastingAgent.getOrCreateChannel("deals");
+      const listeningChannel: Channel = await listeningAgent.getOrCreateChannel("deals");
+      Assert.equal(listeningChannel.type, "app", "channel type");
+      listeningChannel.addContextListener((context: Context) => received.push(context));
+
+      await broadcastingChannel.broadcast(INSTRUMENT);
+      await environment.waitFor(() => received.length > 0, "the context to reach the channel members");
+      Assert.deepEqual(received, [INSTRUMENT], "received context");
+      Assert.deepEqual(await listeningChannel.getCurrentContext(), INSTRUMENT, "current context");
+    }
+  },
+  {
+    name: "getOrCreateChannel: rejects invalid channel ids",
+    run: async (environment: ConformanceEnvironment) => {
+      const agent: DesktopAgent = await environment.createAgent([environment.createPlatform(PLATFORM_A)]);
+
+      await Assert.rejects(() => agent.getOrCreateChannel(undefined));
+      await Assert.rejects(() => agent.getOrCreateChannel(42 as any));
+    }
+  }
+];
+
+const conformanceCases: ConformanceCase[] = [
+  ...openCases,
+  ...findInstancesCases,
+  ...findIntentCases,
+  ...findIntentsByContextCases,
+  ...broadcastCases,
+  ...raiseIntentCases,
+  ...listenerCases,
+  ...channelCases
+];
+
+export default conformanceCases;
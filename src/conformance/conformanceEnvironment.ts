@@ -0,0 +1,163 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Context, DesktopAgent} from "../interfaces/interface";
+import {Application, InteropPeer, InteropPeerDescriptor, Method, MethodImplementation} from "../interfaces/client-api";
+import {Fdc3BusConfig} from "../interfaces/config";
+import {ConformanceAgentFactory, ConformanceApp} from "../interfaces/conformance";
+import MemoryPlatform from "../memory/memoryPlatform";
+import Protocol from "../protocol";
+import AssertionFailure from "./assertionFailure";
+
+const DEFAULT_WAIT_TIMEOUT: number = 1000;
+const WAIT_POLL_INTERVAL: number = 5;
+
+/**
+ * The simulated desktop a conformance case runs against: in-memory platforms, the applications connected to them
+ * and the DesktopAgents under test. Everything is torn down after the case.
+ */
+export default class ConformanceEnvironment {
+  public readonly protocol: Protocol = new Protocol();
+  private createAgentFunction: ConformanceAgentFactory;
+  private platforms: MemoryPlatform[] = [];
+
+  constructor(createAgent: ConformanceAgentFactory) {
+    this.createAgentFunction = createAgent;
+  }
+
+  public createPlatform(name: string): MemoryPlatform {
+    const platform: MemoryPlatform = new MemoryPlatform(name);
+    this.platforms.push(platform);
+    return platform;
+  }
+
+  public createAgent(platforms: MemoryPlatform[], config?: Fdc3BusConfig): Promise<DesktopAgent> {
+    return this.createAgentFunction(platforms, config);
+  }
+
+  /**
+   * Connects an application which is not started through the agent.
+   */
+  public connectApp(platform: MemoryPlatform, app: ConformanceApp): Promise<InteropPeer> {
+    return platform.connect(app.name, undefined, app.methods ? app.methods(platform.type) : []);
+  }
+
+  /**
+   * Connects the peer which lists and starts the given applications on the platform,
+   * through its ListApplications and StartApplication methods.
+   * Either method can be left out to simulate platforms without application management.
+   */
+  public addLauncher(
+    platform: MemoryPlatform,
+    apps: ConformanceApp[],
+    {listApplications = true, startApplication = true}: {listApplications?: boolean, startApplication?: boolean} = {}
+  ): Promise<InteropPeer> {
+    const methods: MethodImplementation[] = [];
+    if (listApplications) {
+      methods.push({
+        name: this.protocol.listApplications(platform.type),
+        onInvoke: async () => apps.map((app: ConformanceApp): Application => ({appId: app.name, name: app.name, platformName: platform.type}))
+      });
+    }
+    if (startApplication) {
+      methods.push({
+        name: this.protocol.startApplication(platform.type),
+        onInvoke: async (args: {application: string}) => {
+          const app: ConformanceApp = apps.find((listedApp: ConformanceApp) => listedApp.name === args.application);
+          if (!app) {
+            throw new Error(`Application "${args.application}" is not known.`);
+          }
+          await this.connectApp(platform, app);
+        }
+      });
+    }
+    return platform.connect(`${platform.type}Launcher`, undefined, methods);
+  }
+
+  /**
+   * A ContextListener method collecting the received context.
+   */
+  public contextListener(platformName: string, received: Context[], acceptType?: string): MethodImplementation {
+    return {
+      name: this.protocol.contextListener(platformName),
+      acceptType,
+      onInvoke: async (context: Context) => {
+        received.push(context);
+      }
+    };
+  }
+
+  /**
+   * A method handling the intent for the context type, answering with the result of the handler.
+   */
+  public intentMethod(
+    intent: string,
+    contextType: string,
+    handler: (context: Context, caller: InteropPeerDescriptor) => any = () => undefined
+  ): MethodImplementation {
+    return {
+      name: `${intent}Handler`,
+      intent: [{name: intent, context: contextType}],
+      onInvoke: async (context: Context, caller: InteropPeerDescriptor) => handler(context, caller)
+    };
+  }
+
+  /**
+   * Resolves once the condition holds, e.g. once a context has been delivered.
+   * Rejects with an AssertionFailure describing what did not happen within the timeout.
+   */
+  public waitFor(condition: () => boolean, description: string, timeout: number = DEFAULT_WAIT_TIMEOUT): Promise<void> {
+    const deadline: number = Date.now() + timeout;
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (condition()) {
+          resolve();
+        } else if (Date.now() >= deadline) {
+          reject(new AssertionFailure(`timed out after ${timeout} ms waiting for ${description}`));
+        } else {
+          setTimeout(check, WAIT_POLL_INTERVAL);
+        }
+      };
+      check();
+    });
+  }
+
+  /**
+   * Resolves once the platform has at least the given number of methods with the name, or matching the predicate,
+   * e.g. once the agents have registered the methods of their listeners.
+   */
+  public waitForMethods(
+    platform: MemoryPlatform,
+    name: string | ((method: Method) => boolean),
+    count: number = 1,
+    timeout?: number
+  ): Promise<void> {
+    const matches: (method: Method) => boolean = typeof name === "string" ? (method: Method) => method.name === name : name;
+    return this.waitFor(
+      () => platform.getMethods().filter(matches).length >= count,
+      `${count} ${typeof name === "string" ? `"${name}" ` : ""}method(s) on ${platform.type}`,
+      timeout
+    );
+  }
+
+  /**
+   * Drops the connections of all peers, including the agents under test.
+   */
+  public async dispose(): Promise<void> {
+    await Promise.all(this.platforms.map((platform: MemoryPlatform) => platform.dropConnection()));
+  }
+}
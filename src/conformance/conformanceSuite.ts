@@ -0,0 +1,90 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ConformanceAgentFactory,
+  ConformanceCase,
+  ConformanceOptions,
+  ConformanceReport,
+  ConformanceResult
+} from "../interfaces/conformance";
+import Utils from "../utils";
+import AssertionFailure from "./assertionFailure";
+import ConformanceEnvironment from "./conformanceEnvironment";
+import busConformanceCases from "./busConformanceCases";
+import conformanceCases from "./conformanceCases";
+
+const DEFAULT_CASE_TIMEOUT: number = 5000;
+
+/**
+ * Runs the DesktopAgent conformance cases one after another, each against freshly simulated in-memory platforms,
+ * and resolves with a report of the passed and failed cases. It never rejects because of a failed case.
+ *
+ * Any DesktopAgent talking to the platforms through the methods of this bus (Fdc3.<platform>.ContextListener,
+ * Fdc3.<platform>.StartApplication, ...) can be checked by passing a factory creating it:
+ * ```javascript
+ * const report = await runConformanceSuite((platforms, config) => Fdc3Bus(platforms, [], config));
+ * report.results.filter((result) => !result.passed).forEach((result) => console.log(result.name, result.error));
+ * ``` *
+ * The cases of the Fdc3Bus configuration and API, such as its policy and protocol, run only with includeBusCases.
+ */
+export default async function runConformanceSuite(
+  createAgent: ConformanceAgentFactory,
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const caseTimeout: number = options.caseTimeout || DEFAULT_CASE_TIMEOUT;
+  const cases: ConformanceCase[] = options.includeBusCases ? [...conformanceCases, ...busConformanceCases] : conformanceCases;
+  const selectedCases: ConformanceCase[] = cases.filter((conformanceCase: ConformanceCase) => {
+    if (!options.filter) {
+      return true;
+    }
+    return typeof options.filter === "string"
+      ? conformanceCase.name.indexOf(options.filter) !== -1
+      : options.filter.test(conformanceCase.name);
+  });
+
+  const results: ConformanceResult[] = [];
+  for (const conformanceCase of selectedCases) {
+    const environment: ConformanceEnvironment = new ConformanceEnvironment(createAgent);
+    const start: number = Date.now();
+    let result: ConformanceResult;
+    try {
+      await Utils.withTimeout(conformanceCase.run(environment), caseTimeout, new AssertionFailure(`timed out after ${caseTimeout} ms`));
+      result = {name: conformanceCase.name, passed: true, duration: Date.now() - start};
+    } catch (error) {
+      result = {
+        name: conformanceCase.name,
+        passed: false,
+        error: error && error.message ? error.message : String(error),
+        duration: Date.now() - start
+      };
+    } finally {
+      await environment.dispose().catch(() => undefined);
+    }
+
+    results.push(result);
+    if (options.onResult) {
+      options.onResult(result);
+    }
+  }
+
+  return {
+    passed: results.filter((result: ConformanceResult) => result.passed).length,
+    failed: results.filter((result: ConformanceResult) => !result.passed).length,
+    results
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Context} from "../interfaces/interface";
+
+/**
+ * The platforms and the context shared by the conformance cases.
+ */
+export const PLATFORM_A: string = "PlatformA";
+export const PLATFORM_B: string = "PlatformB";
+export const INSTRUMENT: Context = {type: "fdc3.instrument", id: {ticker: "AAPL"}};
+export const CONTACT: Context = {type: "fdc3.contact", id: {email: "jane@example.com"}};
@@ -0,0 +1,143 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AppMetadata, Context, Delivery} from "./interfaces/interface";
+import {Platform} from "./interfaces/client-api";
+import {ContextBridgeConfig, ContextBridgeRule} from "./interfaces/config";
+import Utils from "./utils";
+
+/**
+ * Tag added to the context published by the buses and republished by the bridges.
+ * Only buses receive the tag: the context is delivered untagged to the other apps.
+ */
+export interface BridgeMetadata {
+  id: string;                         // Stable id of the message, the same on every platform it is published on.
+  platforms: string[];                // The platforms the message has been published on, by its publisher and by the bridges.
+  source?: AppMetadata;               // The app which published the message, as seen on the first platform it was bridged from.
+  sourcePeerIds?: string[];           // The peers of the publishing app, which never get the message back.
+}
+
+const BRIDGE_METADATA_KEY: string = "fdc3BridgeMetadata";
+
+/**
+ * Republishes the context received on one platform to all the other platforms of the bus.
+ *
+ * Every bus tags the context it broadcasts with a message id, the platforms it published it on and its own peers.
+ * A bridge republishes a message only to the platforms it has not been published on yet, never to the peers of
+ * its publisher, and adds those platforms to the tag. The buses drop the messages they have already received.
+ *
+ * When several bridging buses are connected to the same two platforms, only the one with the lowest id republishes
+ * between them, so that the apps outside the bus, which cannot recognize the tag, receive each message once too.
+ */
+export default class ContextBridge {
+  /**
+   * Returns the context without the bridge tag, as delivered to the listeners and to the apps outside the bus.
+   */
+  public static untag(context: Context): Context {
+    if (!context || !context[BRIDGE_METADATA_KEY]) {
+      return context;
+    }
+    const {[BRIDGE_METADATA_KEY]: metadata, ...untaggedContext} = context;
+    return untaggedContext as Context;
+  }
+
+  public static tag(context: Context, metadata: BridgeMetadata): Context {
+    return {...ContextBridge.untag(context), [BRIDGE_METADATA_KEY]: metadata};
+  }
+
+  public static getMetadata(context: Context): BridgeMetadata | undefined {
+    return context ? context[BRIDGE_METADATA_KEY] : undefined;
+  }
+
+  public readonly id: string;
+  private config: ContextBridgeConfig;
+  private getPlatforms: () => Platform[];
+  private getBridgeIds: (platform: Platform) => Promise<string[]>;
+  private publish: (platform: Platform, context: Context, excludedPeerIds: string[]) => Promise<Delivery[]>;
+
+  constructor(
+    config: ContextBridgeConfig,
+    getPlatforms: () => Platform[],
+    getBridgeIds: (platform: Platform) => Promise<string[]>,
+    publish: (platform: Platform, context: Context, excludedPeerIds: string[]) => Promise<Delivery[]>
+  ) {
+    this.id = Utils.generateId();
+    this.config = config;
+    this.getPlatforms = getPlatforms;
+    this.getBridgeIds = getBridgeIds;
+    this.publish = publish;
+  }
+
+  /**
+   * Republishes context received on the given platform from the source app to the other platforms allowed by the rules.
+   * The bus calls it once per message.
+   */
+  public async receive(platform: Platform, context: Context, source?: AppMetadata, sourcePeerId?: string): Promise<void> {
+    if (!context) {
+      return;
+    }
+    const receivedMetadata: BridgeMetadata = ContextBridge.getMetadata(context);
+    const platforms: string[] = receivedMetadata && receivedMetadata.platforms ? receivedMetadata.platforms : [];
+    const metadata: BridgeMetadata = {
+      id: receivedMetadata ? receivedMetadata.id : Utils.generateId(),
+      platforms: platforms.indexOf(platform.name) === -1 ? [...platforms, platform.name] : platforms,
+      source: receivedMetadata && receivedMetadata.source ? receivedMetadata.source : source,
+      sourcePeerIds: receivedMetadata && receivedMetadata.sourcePeerIds ? receivedMetadata.sourcePeerIds : [sourcePeerId].filter((id) => id)
+    };
+    if (!this.isAllowed((this.config.outbound || {})[metadata.platforms[0]], context.type)) {
+      return;
+    }
+
+    const sourceBridgeIds: string[] = await this.getBridgeIds(platform).catch((): string[] => []);
+    const candidatePlatforms: Platform[] = this.getPlatforms()
+      .filter((targetPlatform: Platform) => metadata.platforms.indexOf(targetPlatform.name) === -1)
+      .filter((targetPlatform: Platform) => this.isAllowed((this.config.inbound || {})[targetPlatform.name], context.type));
+    const elected: boolean[] = await Promise.all(candidatePlatforms.map((targetPlatform: Platform) => this.getBridgeIds(targetPlatform)
+      .catch((): string[] => [])
+      .then((targetBridgeIds: string[]) => this.isElected(sourceBridgeIds, targetBridgeIds))));
+    const targetPlatforms: Platform[] = candidatePlatforms.filter((targetPlatform: Platform, index: number) => elected[index]);
+    if (targetPlatforms.length === 0) {
+      return;
+    }
+    const bridgedContext: Context = ContextBridge.tag(context, {
+      ...metadata,
+      platforms: [...metadata.platforms, ...targetPlatforms.map((targetPlatform: Platform) => targetPlatform.name)]
+    });
+    await Promise.all(targetPlatforms.map((targetPlatform: Platform) => this
+      .publish(targetPlatform, bridgedContext, [...metadata.sourcePeerIds, targetPlatform.platformApi.id])
+      .catch(() => undefined)));
+  }
+
+  /**
+   * Whether this bridge has the lowest id among the bridges connected to both platforms.
+   */
+  private isElected(sourceBridgeIds: string[], targetBridgeIds: string[]): boolean {
+    return sourceBridgeIds
+      .filter((bridgeId: string) => targetBridgeIds.indexOf(bridgeId) !== -1)
+      .every((bridgeId: string) => bridgeId >= this.id);
+  }
+
+  private isAllowed(rule: ContextBridgeRule, contextType: string): boolean {
+    if (!rule) {
+      return true;
+    }
+    if (rule.deny && rule.deny.indexOf(contextType) !== -1) {
+      return false;
+    }
+    return !rule.allow || rule.allow.indexOf(contextType) !== -1;
+  }
+}
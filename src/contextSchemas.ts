@@ -0,0 +1,78 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {JsonSchema} from "./interfaces/config";
+
+/**
+ * Builds the schema of a context type: the fields common to all context plus the fields of the type.
+ */
+function contextSchema(contextType: string, properties: {[name: string]: JsonSchema}, required: string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      type: {type: "string", const: contextType},
+      name: {type: "string"},
+      ...properties
+    },
+    required: ["type", ...required]
+  };
+}
+
+function identifiers(...names: string[]): JsonSchema {
+  const properties: {[name: string]: JsonSchema} = {};
+  names.forEach((name: string) => properties[name] = {type: "string"});
+  return {type: "object", properties};
+}
+
+const instrument: JsonSchema = contextSchema("fdc3.instrument", {
+  id: identifiers("ticker", "BBG", "CUSIP", "FDS_ID", "FIGI", "ISIN", "PERMID", "RIC", "SEDOL")
+}, ["id"]);
+
+const contact: JsonSchema = contextSchema("fdc3.contact", {
+  id: identifiers("email", "FDS_ID")
+}, ["id"]);
+
+const position: JsonSchema = contextSchema("fdc3.position", {
+  instrument,
+  holding: {type: "number"}
+}, ["instrument", "holding"]);
+
+/**
+ * The schemas of the standard FDC3 context types, as defined by the FDC3 Context Data specification.
+ */
+const STANDARD_CONTEXT_SCHEMAS: {[contextType: string]: JsonSchema} = {
+  "fdc3.instrument": instrument,
+  "fdc3.instrumentList": contextSchema("fdc3.instrumentList", {
+    instruments: {type: "array", items: instrument}
+  }, ["instruments"]),
+  "fdc3.contact": contact,
+  "fdc3.contactList": contextSchema("fdc3.contactList", {
+    contacts: {type: "array", items: contact}
+  }, ["contacts"]),
+  "fdc3.organization": contextSchema("fdc3.organization", {
+    id: identifiers("LEI", "PERMID", "FDS_ID")
+  }, ["id"]),
+  "fdc3.country": contextSchema("fdc3.country", {
+    id: identifiers("ISOALPHA2", "ISOALPHA3")
+  }, ["id"]),
+  "fdc3.position": position,
+  "fdc3.portfolio": contextSchema("fdc3.portfolio", {
+    positions: {type: "array", items: position}
+  }, ["positions"])
+};
+
+export default STANDARD_CONTEXT_SCHEMAS;
@@ -0,0 +1,155 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Context} from "./interfaces/interface";
+import {ContextValidationConfig, ContextValidationFailure, JsonSchema, JsonSchemaType} from "./interfaces/config";
+import {ValidationError} from "./errors";
+import STANDARD_CONTEXT_SCHEMAS from "./contextSchemas";
+
+/**
+ * Validates the context sent by the bus against the schema registered for its type.
+ *
+ * Only the subset of JSON Schema described by the JsonSchema interface is supported, which is enough for the flat
+ * structures of the FDC3 context types and keeps the bundle free of a full JSON Schema implementation.
+ */
+export default class ContextValidator {
+  private mode: "strict" | "warn" | "off";
+  private schemas: Map<string, JsonSchema> = new Map();
+  private log: (failure: ContextValidationFailure) => void;
+
+  constructor(config: ContextValidationConfig = {}) {
+    this.mode = config.mode || "warn";
+    this.log = config.log || ((failure: ContextValidationFailure) => console.warn(failure.message));
+    Object.keys(STANDARD_CONTEXT_SCHEMAS).forEach((contextType: string) => this.register(contextType, STANDARD_CONTEXT_SCHEMAS[contextType]));
+    Object.keys(config.schemas || {}).forEach((contextType: string) => this.register(contextType, config.schemas[contextType]));
+  }
+
+  /**
+   * Registers the schema of a context type, replacing the previous one.
+   */
+  public register(contextType: string, schema: JsonSchema): void {
+    if (!contextType || typeof contextType !== "string") {
+      throw new ValidationError(`Context type must be a non-empty string`);
+    }
+    if (!schema || typeof schema !== "object") {
+      throw new ValidationError(`Schema must be of type "object"`);
+    }
+    this.schemas.set(contextType, schema);
+  }
+
+  public getSchema(contextType: string): JsonSchema | undefined {
+    return this.schemas.get(contextType);
+  }
+
+  /**
+   * Returns the violations of the schema of the context type, if any.
+   */
+  public getErrors(context: Context): string[] {
+    const schema: JsonSchema = context ? this.schemas.get(context.type) : undefined;
+    return schema ? this.validateValue(schema, context, "") : [];
+  }
+
+  /**
+   * Throws ValidationError in strict mode and logs the violations in warn mode.
+   */
+  public validate(context: Context): void {
+    if (this.mode === "off" || !context) {
+      return;
+    }
+    const errors: string[] = this.getErrors(context);
+    if (errors.length === 0) {
+      return;
+    }
+
+    const message: string = `Context "${context.type}" does not match its schema: ${errors.join("; ")}`;
+    if (this.mode === "strict") {
+      throw new ValidationError(message);
+    }
+    try {
+      this.log({contextType: context.type, errors, message});
+    } catch (error) {
+      // A failing log must not fail the call.
+    }
+  }
+
+  private validateValue(schema: JsonSchema, value: any, path: string): string[] {
+    const name: string = path || "context";
+    if (schema.type) {
+      const types: JsonSchemaType[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type: JsonSchemaType) => this.hasType(value, type))) {
+        return [`${name} must be of type ${types.map((type: JsonSchemaType) => `"${type}"`).join(" or ")}`];
+      }
+    }
+    if (typeof schema.const !== "undefined" && value !== schema.const) {
+      return [`${name} must be ${JSON.stringify(schema.const)}`];
+    }
+    if (schema.enum && schema.enum.indexOf(value) === -1) {
+      return [`${name} must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(", ")}`];
+    }
+
+    const errors: string[] = [];
+    if (typeof value === "string" && typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${name} must have at least ${schema.minLength} characters`);
+    }
+    if (Array.isArray(value)) {
+      if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+        errors.push(`${name} must have at least ${schema.minItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item: any, index: number) => errors.push(...this.validateValue(schema.items, item, `${name}[${index}]`)));
+      }
+    }
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      errors.push(...this.validateObject(schema, value, path));
+    }
+    return errors;
+  }
+
+  private validateObject(schema: JsonSchema, value: {[name: string]: any}, path: string): string[] {
+    const properties: {[name: string]: JsonSchema} = schema.properties || {};
+    const propertyPath = (property: string) => path ? `${path}.${property}` : property;
+    const errors: string[] = (schema.required || [])
+      .filter((property: string) => typeof value[property] === "undefined")
+      .map((property: string) => `${propertyPath(property)} is required`);
+
+    Object.keys(value).forEach((property: string) => {
+      if (properties[property]) {
+        if (typeof value[property] !== "undefined") {
+          errors.push(...this.validateValue(properties[property], value[property], propertyPath(property)));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath(property)} is not allowed`);
+      }
+    });
+    return errors;
+  }
+
+  private hasType(value: any, type: JsonSchemaType): boolean {
+    switch (type) {
+      case "array":
+        return Array.isArray(value);
+      case "object":
+        return value !== null && typeof value === "object" && !Array.isArray(value);
+      case "integer":
+        return typeof value === "number" && Number.isInteger(value);
+      case "null":
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+}
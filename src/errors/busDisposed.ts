@@ -0,0 +1,28 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Fdc3Error from "./fdc3Error";
+
+/**
+ * Raised by calls made to a bus after it has been disposed.
+ */
+export default class BusDisposed extends Fdc3Error {
+  constructor() {
+    super("BusDisposed", "The bus has been disposed");
+    this.name = "BusDisposed";
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Base class of all errors raised by the bus.
+ * The code allows telling failures apart without matching error messages.
+ */
+export default class Fdc3Error extends Error {
+  public readonly code: string;
+  public readonly platform?: string;  // The name of the platform the failure occurred on, if any.
+  public readonly cause?: any;        // The underlying error, if any.
+
+  constructor(code: string, message: string, platform?: string, cause?: any) {
+    super(message);
+    this.name = "Fdc3Error";
+    this.code = code;
+    this.platform = platform;
+    this.cause = cause;
+  }
+}
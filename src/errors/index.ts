@@ -0,0 +1,25 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export {default as Fdc3Error} from "./fdc3Error";
+export {default as OpenFailure} from "./openFailure";
+export {default as ResolveFailure} from "./resolveFailure";
+export {default as PlatformUnavailable} from "./platformUnavailable";
+export {default as ValidationError} from "./validationError";
+export {default as ChannelFailure} from "./channelFailure";
+export {default as BusDisposed} from "./busDisposed";
+export {default as PolicyDenied} from "./policyDenied";
@@ -0,0 +1,33 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {OpenError} from "../interfaces/interface";
+import Fdc3Error from "./fdc3Error";
+
+/**
+ * Raised by open(). The message is the OpenError code, as required by the DesktopAgent API.
+ */
+export default class OpenFailure extends Fdc3Error {
+  public readonly code: OpenError;
+  public readonly app: string;
+
+  constructor(code: OpenError, app: string, platform?: string, cause?: any) {
+    super(code, code, platform, cause);
+    this.name = "OpenFailure";
+    this.app = app;
+  }
+}
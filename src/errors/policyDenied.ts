@@ -0,0 +1,35 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PolicyDenial, PolicyRequest, PolicyRule} from "../interfaces/config";
+import Fdc3Error from "./fdc3Error";
+
+/**
+ * Raised when the authorization policy of the bus denies a call, both to the caller of outgoing calls
+ * and to the peers invoking the methods of the bus.
+ */
+export default class PolicyDenied extends Fdc3Error {
+  public readonly request: PolicyRequest;
+  public readonly rule?: PolicyRule;
+
+  constructor(denial: PolicyDenial) {
+    super("PolicyDenied", denial.message, denial.request.platform);
+    this.name = "PolicyDenied";
+    this.request = denial.request;
+    this.rule = denial.rule;
+  }
+}
@@ -17,62 +17,277 @@
 
 import {default as CallbackRegistryFactory, CallbackRegistry} from "callback-registry";
 
-import {AppIntent, Context, DesktopAgent, IntentResolution, Listener} from "./interfaces/interface";
-import {Application, InteropPeerDescriptor, Method, MethodImplementation, Platform} from "./interfaces/client-api";
-import Utils from "./utils";
+import {
+  AppIntent,
+  AppMetadata,
+  Channel,
+  Context,
+  ContextHandler,
+  ContextMetadata,
+  Delivery,
+  DeliveryReport,
+  DesktopAgent,
+  IntentResolution,
+  Listener,
+  OpenError,
+  ResolveError,
+  TargetApp
+} from "./interfaces/interface";
+import {
+  Application,
+  InteropPeer,
+  InteropPeerDescriptor,
+  InteropPlatform,
+  Method,
+  MethodImplementation,
+  Platform,
+  RegisteredMethod,
+  Subscription
+} from "./interfaces/client-api";
+import {
+  ConnectionStrategy,
+  Fdc3BusConfig,
+  IntentResolverCandidate,
+  JsonSchema,
+  PolicyDenial,
+  PolicyRequest,
+  ProtocolMismatch
+} from "./interfaces/config";
+import {AppDirectoryApplication, AppDirectoryIntent, AppDirectoryIntentMatch} from "./interfaces/app-directory";
+import {BusDisposed, OpenFailure, PlatformUnavailable, PolicyDenied, ResolveFailure, ValidationError} from "./errors";
+import Utils, {CancellationSignal} from "./utils";
+import ChannelManager from "./channels/channelManager";
+import MethodRegistry from "./methodRegistry";
+import ContextBridge, {BridgeMetadata} from "./contextBridge";
+import Protocol, {ProtocolDescriptor} from "./protocol";
+import PolicyEngine from "./policyEngine";
+import ContextValidator from "./contextValidator";
+import AppDirectory from "./appDirectory";
+import SeenMessages from "./seenMessages";
 
-const registry: CallbackRegistry = CallbackRegistryFactory();
+interface PlatformMethod {
+  platform: Platform;
+  method: Method;
+}
+
+/**
+ * An application able to handle a raised intent: either a running one, with its intent method,
+ * or one declared in the App Directory, which has to be launched first.
+ */
+interface IntentCandidate {
+  platform?: Platform;
+  method?: Method;
+  application?: AppDirectoryApplication;
+}
+
+interface ContextListenerMethod {
+  acceptType: string;
+  registration: Promise<RegisteredMethod>;
+}
+
+const DEFAULT_RESOLVER_TIMEOUT: number = 60000;
+const DEFAULT_APP_LAUNCH_TIMEOUT: number = 30000;
+const DEFAULT_ACCEPTS_TIMEOUT: number = 1000;
+const DEFAULT_DELIVERY_TIMEOUT: number = 5000;
+const DEFAULT_STARTUP_TIMEOUT: number = 10000;
+const FDC3_VERSION: string = "1.2";
 
 class Fdc3Impl implements DesktopAgent {
   private platforms: Platform[];
-  private defaultErrorMessage: string;
+  private registry: CallbackRegistry = CallbackRegistryFactory();
+  private disposed: boolean = false;
+  private config: Fdc3BusConfig;
+  private methods: MethodImplementation[];
+  private pendingPlatforms: Map<string, Platform> = new Map();
+  private channelManager: ChannelManager;
+  private appDirectory: AppDirectory;
+  private methodRegistries: Map<string, MethodRegistry> = new Map();
+  private platformSubscriptions: Map<string, Subscription[]> = new Map();
+  private contextListenerTypes: string[] = [];
+  private contextHandlers: ContextHandler[] = [];
+  private contextListenerMethods: Map<string, ContextListenerMethod> = new Map();
+  private intentListenerMethods: Map<string, Map<string, Promise<RegisteredMethod>>> = new Map();
+  private intentHandlers: Map<string, Array<(context: Context) => any>> = new Map();
+  private contextBridge: ContextBridge;
+  private bridgeMethods: Map<string, Promise<RegisteredMethod>> = new Map();
+  private seenMessages: SeenMessages = new SeenMessages();
+  private protocol: Protocol;
+  private policy: PolicyEngine;
+  private contextValidator: ContextValidator;
 
-  constructor(platforms: Platform[] = []) {
+  constructor(platforms: Platform[] = [], config: Fdc3BusConfig = {}, methods: MethodImplementation[] = []) {
     this.platforms = platforms;
+    this.config = config;
+    this.methods = methods;
+    this.protocol = new Protocol(config.protocol);
+    this.policy = new PolicyEngine(config.policy);
+    this.contextValidator = new ContextValidator(config.contextValidation);
+    this.appDirectory = config.appDirectory ? new AppDirectory(config.appDirectory) : undefined;
+    this.platforms.forEach((platform: Platform) => {
+      this.methodRegistries.set(platform.name, new MethodRegistry(platform.platformApi));
+      this.watchPlatformStatus(platform);
+      this.watchProtocol(platform);
+    });
+    this.channelManager = new ChannelManager(
+      () => this.platforms,
+      (platform: Platform) => this.getMethodRegistry(platform),
+      (context: Context, metadata?: ContextMetadata) => {
+        this.notifyContextListeners(context, metadata).catch(() => undefined);
+      },
+      config.deliveryTimeout || DEFAULT_DELIVERY_TIMEOUT,
+      this.protocol,
+      this.policy,
+      this.contextValidator);
+    if (config.bridge) {
+      this.contextBridge = new ContextBridge(
+        config.bridge,
+        () => this.platforms,
+        (platform: Platform) => this.getBridgeIds(platform),
+        (platform: Platform, context: Context, excludedPeerIds: string[]) => this.publishContext(platform, context, excludedPeerIds));
+      this.registerContextListenerMethods();
+      this.registerBridgeMethods();
+    }
   }
 
-  public async open(app: string, context?: Context): Promise<any> {
+  public async open(app: TargetApp, context?: Context): Promise<AppMetadata> {
+    this.checkNotDisposed();
     Utils.validateOpenParams(app, context);
+    this.contextValidator.validate(context);
 
-    let platform: Platform;
-    const platformName: string = this.getPlatformName(app);
-    const appName: string = platformName ? this.getApplicationName(app) : app;
-    this.defaultErrorMessage = `Unable to start application named "${appName}"`;
-
-    try {
-      platform = platformName ? await this.getPlatform(appName, platformName) : await this.getPlatform(app);
-    } catch (error) {
-      throw new Error(error.message || this.defaultErrorMessage);
+    const targetApp: AppMetadata = this.getOpenTargetApp(app);
+    const timeout: number = this.config.appLaunchTimeout || DEFAULT_APP_LAUNCH_TIMEOUT;
+    if (targetApp.instanceId) {
+      return this.openInstance(targetApp, context, timeout);
     }
 
-    const args: {application: string, context: Context} = {application: appName, context};
-    const methodName: string = `Fdc3.${platform.name}.StartApplication`;
+    const directoryApp: AppDirectoryApplication = await this.findDirectoryApplication(targetApp.appId || targetApp.name);
+    const appName: string = directoryApp ? directoryApp.name : targetApp.name;
+    const platform: Platform = targetApp.platform ? await this.getPlatform(appName, targetApp.platform) : await this.getPlatform(appName);
+    this.policy.authorize({operation: "open", application: appName, platform: platform.name, contextType: context ? context.type : undefined});
+
+    const cleanup: Array<() => void> = [];
+    const appPeers: InteropPeerDescriptor[] = [];
+    let onAppPeerConnected: () => void = () => undefined;
+    const subscription: Subscription = platform.platformApi.onPeerConnected((peer: InteropPeerDescriptor) => {
+      if (peer.applicationName === appName) {
+        appPeers.push(peer);
+        onAppPeerConnected();
+      }
+    });
+    cleanup.push(() => subscription.unsubscribe().catch(() => undefined));
+
     try {
-      const startInvokeResult: any = await platform.platformApi.invoke(methodName, args);
-      return startInvokeResult.result;
-    } catch (error) {
-      throw new Error(this.defaultErrorMessage);
+      const args: {application: string} = {application: appName};
+      const methodName: string = this.protocol.startApplication(platform.name);
+      let startResult: any;
+      try {
+        startResult = (await platform.platformApi.invoke(methodName, args)).result;
+      } catch (error) {
+        throw new OpenFailure(OpenError.ErrorOnLaunch, appName, platform.name, error);
+      }
+
+      // The platforms answering StartApplication with the instance id tell the launched instance apart from other
+      // instances of the app connecting at the same time. Otherwise the first instance connecting is taken.
+      const startedInstanceId: string = startResult && typeof startResult.instanceId === "string" ? startResult.instanceId : undefined;
+      const findLaunchedPeer = () => appPeers.find((peer: InteropPeerDescriptor) => !startedInstanceId || peer.id === startedInstanceId);
+
+      if (!context) {
+        // Without context to deliver there is no need to wait for the app, which may never join the platform.
+        // The instance is known only if the platform told it or if it joined while being started.
+        const startedPeer: InteropPeerDescriptor = findLaunchedPeer();
+        return {
+          name: appName,
+          appId: directoryApp ? directoryApp.appId : undefined,
+          instanceId: startedInstanceId || (startedPeer ? startedPeer.id : undefined),
+          platform: platform.name
+        };
+      }
+
+      const launchedPeerConnected: Promise<InteropPeerDescriptor> = new Promise((resolve) => {
+        onAppPeerConnected = () => {
+          const launchedPeer: InteropPeerDescriptor = findLaunchedPeer();
+          if (launchedPeer) {
+            resolve(launchedPeer);
+          }
+        };
+        onAppPeerConnected();
+      });
+      const deliveredPeer: InteropPeerDescriptor = await Utils.withTimeout(
+        launchedPeerConnected.then(async (peer: InteropPeerDescriptor) => {
+          await this.deliverContext(platform, peer.id, context, cleanup);
+          return peer;
+        }),
+        timeout,
+        new OpenFailure(OpenError.AppTimeout, appName, platform.name));
+
+      return {
+        name: appName,
+        appId: directoryApp ? directoryApp.appId : undefined,
+        instanceId: deliveredPeer.id,
+        platform: platform.name
+      };
+    } finally {
+      cleanup.forEach((cleanupFunction: () => void) => cleanupFunction());
     }
   }
 
+  public async findInstances(app: TargetApp): Promise<AppMetadata[]> {
+    this.checkNotDisposed();
+    Utils.validateTargetApp(app);
+
+    const targetApp: AppMetadata = this.getTargetApp(app);
+    const directoryApp: AppDirectoryApplication = await this.findDirectoryApplication(targetApp.appId || targetApp.name);
+    const appName: string = directoryApp ? directoryApp.name : targetApp.name;
+
+    const platformsInstances: AppMetadata[][] = await Promise.all(this.platforms
+      .filter((platform: Platform) => !targetApp.platform || platform.name === targetApp.platform)
+      .map(async (platform: Platform) => {
+        let peers: InteropPeerDescriptor[];
+        try {
+          peers = await platform.platformApi.discoverPeers();
+        } catch (error) {
+          return [];
+        }
+        return peers
+          .filter((peer: InteropPeerDescriptor) => peer.id && peer.applicationName === appName)
+          .filter((peer: InteropPeerDescriptor) => !targetApp.instanceId || peer.id === targetApp.instanceId)
+          .map((peer: InteropPeerDescriptor) => ({
+            name: peer.applicationName,
+            appId: directoryApp ? directoryApp.appId : undefined,
+            instanceId: peer.id,
+            platform: platform.name
+          }));
+      }));
+
+    return [].concat(...platformsInstances);
+  }
+
   public async findIntent(intent: string, context?: Context): Promise<AppIntent> {
+    this.checkNotDisposed();
     Utils.validateIntentAndContextParams(intent, context);
     const appIntent: AppIntent = {
       intent: {name: intent, displayName: intent},
       apps: []
     };
 
-    for (const platform of this.platforms) {
-      const methods: Method[] = await platform.platformApi.discoverMethods();
-      for (const method of methods) {
-        if (method.intent && method.intent.length > 0) {
-          for (const methodIntent of method.intent) {
-            if (methodIntent.name === intent &&
-               (!context || JSON.stringify(context) === JSON.stringify(methodIntent.context))) {
-              appIntent.apps.push({name: method.peer.applicationName});
-            }
-          }
-        }
+    const platformsMethods: Method[][] = await Promise.all(this.platforms.map(async (platform: Platform) => {
+      let methods: Method[];
+      try {
+        methods = await this.getMethodRegistry(platform).getMethodsByIntent(intent);
+      } catch (error) {
+        return [];
+      }
+      const acceptedIntents: string[][] = await Promise.all(methods.map((method: Method) => this.getAcceptedIntents(method, context)));
+      return methods.filter((method: Method, index: number) => acceptedIntents[index].indexOf(intent) !== -1);
+    }));
+    for (const method of [].concat(...platformsMethods)) {
+      appIntent.apps.push({name: method.peer.applicationName});
+    }
+
+    const directoryApps: AppDirectoryApplication[] = await this.findDirectoryApplicationsByIntent(intent, context && context.type);
+    for (const application of directoryApps) {
+      if (!appIntent.apps.some((app: AppMetadata) => app.name === application.name)) {
+        appIntent.apps.push({name: application.name, appId: application.appId});
       }
     }
 
@@ -80,133 +295,843 @@ class Fdc3Impl implements DesktopAgent {
   }
 
   public async findIntentsByContext(context: Context): Promise<AppIntent[]> {
+    this.checkNotDisposed();
     Utils.validateContext(context);
     const appIntents: AppIntent[] = [];
 
     for (const platform of this.platforms) {
-      const methods: Method[] = await platform.platformApi.discoverMethods();
-      for (const method of methods) {
-        if (method.intent && method.intent.length > 0) {
-          for (const methodIntent of method.intent) {
-            if (JSON.stringify(methodIntent.context) === JSON.stringify(context)) {
-              const intent: AppIntent = appIntents.find((appIntent: AppIntent) =>
-                appIntent.intent.name === methodIntent.name);
-              if (intent) {
-                intent.apps.push({name: method.peer.applicationName});
-              } else {
-                appIntents.push({
-                  intent: {name: methodIntent.name, displayName: methodIntent.name},
-                  apps: [{name: method.peer.applicationName}]
-                });
-              }
-            }
+      let methods: Method[];
+      try {
+        methods = (await this.getMethodRegistry(platform).getMethodsByContextType(context.type))
+          .filter((method: Method) => method.intent && method.intent.length > 0);
+      } catch (error) {
+        continue;
+      }
+      const acceptedIntents: string[][] = await Promise.all(methods.map((method: Method) => this.getAcceptedIntents(method, context)));
+      methods.forEach((method: Method, index: number) => {
+        for (const intentName of acceptedIntents[index]) {
+          const intent: AppIntent = appIntents.find((appIntent: AppIntent) =>
+            appIntent.intent.name === intentName);
+          if (intent) {
+            intent.apps.push({name: method.peer.applicationName});
+          } else {
+            appIntents.push({
+              intent: {name: intentName, displayName: intentName},
+              apps: [{name: method.peer.applicationName}]
+            });
           }
         }
+      });
+    }
+
+    const directoryIntents: AppDirectoryIntentMatch[] = await this.findDirectoryIntentsByContextType(context.type);
+    for (const {intent: directoryIntent, application} of directoryIntents) {
+      const appIntent: AppIntent = appIntents.find((existingAppIntent: AppIntent) =>
+        existingAppIntent.intent.name === directoryIntent.name);
+      if (!appIntent) {
+        appIntents.push({
+          intent: {name: directoryIntent.name, displayName: directoryIntent.displayName || directoryIntent.name},
+          apps: [{name: application.name, appId: application.appId}]
+        });
+      } else if (!appIntent.apps.some((app: AppMetadata) => app.name === application.name)) {
+        appIntent.apps.push({name: application.name, appId: application.appId});
       }
     }
 
     return appIntents;
   }
 
-  public broadcast(context: Context): void {
+  public async broadcast(context: Context): Promise<DeliveryReport> {
+    this.checkNotDisposed();
     if (!context) {
-      throw new Error("Context is mandatory parameter");
+      throw new ValidationError("Context is mandatory parameter");
     }
     Utils.validateContext(context);
+    const currentChannel: Channel = this.channelManager.getCurrentChannel();
+    if (!currentChannel) {
+      // The channel validates the context broadcast on it.
+      this.contextValidator.validate(context);
+    }
 
-    this.platforms.forEach(async (platform: Platform) => {
-      try {
-        const methods: Method[] = await platform.platformApi.discoverMethods();
-        const contextListenerMethods: Method[] = methods
-          .filter((method: Method) => method.name === `Fdc3.${platform.name}.ContextListener`);
-        for (const method of contextListenerMethods) {
-          await platform.platformApi.invoke(method, context);
-        }
-      } catch (error) {
-        return;
-      }
+    if (this.config.receiveOwnBroadcasts) {
+      const ownPlatform: Platform = this.platforms[0];
+      const metadata: ContextMetadata = {
+        source: ownPlatform ? Utils.peerToAppMetadata(ownPlatform.platformApi, ownPlatform.name) : undefined
+      };
+      this.notifyContextListeners(context, metadata).catch(() => undefined);
+    }
+
+    if (currentChannel) {
+      return currentChannel.broadcast(context);
+    }
+
+    const ownPeerIds: string[] = this.platforms.map((platform: Platform) => platform.platformApi.id);
+    const publishedContext: Context = ContextBridge.tag(context, {
+      id: Utils.generateId(),
+      platforms: this.platforms.map((platform: Platform) => platform.name),
+      sourcePeerIds: ownPeerIds
     });
+    this.seenMessages.add(ContextBridge.getMetadata(publishedContext).id);
+    const platformsDeliveries: Delivery[][] = await Promise.all(this.platforms
+      .map((platform: Platform) => this.publishContext(platform, publishedContext, ownPeerIds)));
+    return {context, deliveries: [].concat(...platformsDeliveries)};
   }
 
-  public async raiseIntent(intent: string, context: Context, target?: string): Promise<IntentResolution> {
+  public async raiseIntent(intent: string, context: Context, target?: TargetApp): Promise<IntentResolution> {
+    this.checkNotDisposed();
     Utils.validateRaiseIntent(intent, context, target);
+    this.contextValidator.validate(context);
 
-    for (const platform of this.platforms) {
-      const methods: Method[] = await platform.platformApi.discoverMethods();
-      const methodsWithIntent: Method[] = methods.filter((method: Method) => {
-        if (method.intent && method.intent.length > 0) {
-          for (const methodIntent of method.intent) {
-            if (methodIntent.name === intent) {
-              if (target) {
-                if (method.peer && method.peer.applicationName === target) {
-                  return method;
-                }
-              } else {
-                return method;
-              }
-            }
-          }
-        }
+    const intentMethods: PlatformMethod[] = await this.getIntentMethods(intent, context, target);
+    const foundCandidates: IntentCandidate[] = [
+      ...intentMethods,
+      ...await this.getDirectoryIntentCandidates(intent, context, target, intentMethods)
+    ];
+
+    if (foundCandidates.length === 0) {
+      throw new ResolveFailure(ResolveError.NoAppsFound, intent);
+    }
+
+    const denials: PolicyDenial[] = [];
+    const candidates: IntentCandidate[] = foundCandidates.filter(({platform, method, application}: IntentCandidate) => {
+      // An application which is not running yet may be launched on any of the platforms. It remains a candidate
+      // when the intent may be raised to it on at least one of them, and is authorized again once launched.
+      const platformNames: string[] = platform ? [platform.name] : this.platforms.map((busPlatform: Platform) => busPlatform.name);
+      const denial: PolicyDenial = this.policy.evaluateAny(platformNames.map((platformName: string): PolicyRequest => ({
+        operation: "raiseIntent",
+        application: application ? application.name : method.peer.applicationName,
+        platform: platformName,
+        intent,
+        contextType: context ? context.type : undefined
+      })));
+      if (denial) {
+        denials.push(denial);
+      }
+      return !denial;
+    });
+    if (candidates.length === 0) {
+      throw new PolicyDenied(denials[0]);
+    }
+
+    const candidate: IntentCandidate = candidates.length === 1
+      ? candidates[0]
+      : await this.resolveIntentMethod(intent, context, candidates);
+    const intentMethod: PlatformMethod = candidate.method
+      ? {platform: candidate.platform, method: candidate.method}
+      : await this.launchIntentHandler(intent, candidate.application);
+    this.checkNotDisposed();
+    if (!candidate.method) {
+      this.policy.authorize({
+        operation: "raiseIntent",
+        application: intentMethod.method.peer.applicationName,
+        platform: intentMethod.platform.name,
+        intent,
+        contextType: context ? context.type : undefined
       });
+    }
+
+    const invokeResult = await intentMethod.platform.platformApi.invoke(intentMethod.method, context);
+    const handlingPeer: InteropPeerDescriptor = (invokeResult.method && invokeResult.method.peer) || intentMethod.method.peer;
+    return {
+      source: Utils.peerToAppMetadata(handlingPeer, intentMethod.platform.name),
+      data: invokeResult.result,
+      version: FDC3_VERSION
+    };
+  }
 
-      if (methodsWithIntent.length === 0) {
-        throw new Error(`There is no method with intent "${intent}"`);
+  public addIntentListener(intent: string, handler: (context: Context) => any): Listener {
+    this.checkNotDisposed();
+    Utils.validateAddIntentListener(intent, handler);
+
+    // Each subscription gets its own wrapper, so that the same handler can be added twice and removed once.
+    const intentHandler: (context: Context) => any = (context: Context) => handler(context);
+    let subscribed: boolean = true;
+    const unsubscribe: () => Promise<void> = async () => {
+      if (!subscribed) {
+        return;
+      }
+      subscribed = false;
+
+      const handlers: Array<(context: Context) => any> = this.intentHandlers.get(intent);
+      handlers.splice(handlers.indexOf(intentHandler), 1);
+      if (handlers.length > 0) {
+        return;
+      }
+      this.intentHandlers.delete(intent);
+      await this.unregisterIntentListenerMethods(intent);
+    };
+
+    this.intentHandlers.set(intent, [...(this.intentHandlers.get(intent) || []), intentHandler]);
+    this.registerIntentListenerMethods(intent);
+
+    return {unsubscribe};
+  }
+
+  public addContextListener(handler: ContextHandler): Listener;
+  public addContextListener(contextType: string, handler: ContextHandler): Listener;
+  public addContextListener(contextTypeOrHandler: string | ContextHandler, handler?: ContextHandler): Listener {
+    this.checkNotDisposed();
+    const {contextType, handler: contextHandler} = Utils.getContextListenerArgs(contextTypeOrHandler, handler);
+
+    const filteredHandler: ContextHandler = (context: Context, metadata?: ContextMetadata) => {
+      if (!contextType || context.type === contextType) {
+        return contextHandler(context, metadata);
       }
-      if (methodsWithIntent.length > 1) {
-        throw new Error(`There are multiple applications with method with intent "${intent}"`);
+    };
+    let subscribed: boolean = true;
+    const unsubscribe: () => Promise<void> = async () => {
+      if (!subscribed) {
+        return;
       }
+      subscribed = false;
+      this.contextHandlers.splice(this.contextHandlers.indexOf(filteredHandler), 1);
+
+      this.contextListenerTypes.splice(this.contextListenerTypes.indexOf(contextType), 1);
+      await this.registerContextListenerMethods();
+    };
+
+    this.contextHandlers.push(filteredHandler);
+    this.contextListenerTypes.push(contextType);
+    this.registerContextListenerMethods();
+
+    return {unsubscribe};
+  }
+
+  /**
+   * Drops the cached methods of the given platform, or of all platforms, and discovers them again.
+   */
+  public async refreshMethods(platformName?: string): Promise<void> {
+    this.checkNotDisposed();
+    await Promise.all(this.platforms
+      .filter((platform: Platform) => !platformName || platform.name === platformName)
+      .map((platform: Platform) => this.getMethodRegistry(platform).refresh()));
+  }
+
+  /**
+   * Attaches a platform which connected after the bus was created.
+   * The existing context and intent listeners are registered on it.
+   */
+  public attachPlatform(platform: Platform): void {
+    if (this.disposed) {
+      platform.platformApi.disconnect().catch(() => undefined);
+      return;
+    }
 
-      const invokeResult = await platform.platformApi.invoke(methodsWithIntent[0], context);
-      return invokeResult.result;
+    this.platforms.push(platform);
+    this.methodRegistries.set(platform.name, new MethodRegistry(platform.platformApi));
+    this.watchPlatformStatus(platform);
+    this.watchProtocol(platform);
+    this.registerContextListenerMethods();
+    if (this.contextBridge) {
+      this.registerBridgeMethods();
     }
+    this.intentListenerMethods.forEach((registrations, intent: string) => this.registerIntentListenerMethods(intent));
+    this.channelManager.attachPlatform(platform);
+    this.registry.execute("platform-status-changed", {...platform});
   }
 
-  public addIntentListener(intent: string, handler: (context: Context) => void): Listener {
-    Utils.validateAddIntentListener(intent, handler);
+  /**
+   * Connects to the platform and attaches it once connected. Until then getPlatforms() lists the platform as Connecting,
+   * or as Disconnected once an attempt has failed, and each failed attempt is reported to the status listeners.
+   */
+  public async connectPlatform(interopPlatform: InteropPlatform, onAttemptFailed?: (attempt: number, error: any) => void): Promise<Platform> {
+    const pendingPlatform: Platform = {
+      name: interopPlatform.type,
+      version: interopPlatform.version,
+      online: false,
+      connectionStatus: "Connecting",
+      config: Utils.stringifyConfig((interopPlatform as any).config)
+    };
+    this.pendingPlatforms.set(pendingPlatform.name, pendingPlatform);
+    this.registry.execute("platform-status-changed", {...pendingPlatform});
+
+    let interopPeer: InteropPeer;
+    try {
+      interopPeer = await Utils.connectUntilReady(interopPlatform, this.methods, this.config.connection, (attempt: number, error: any) => {
+        if (pendingPlatform.connectionStatus !== "Disconnected") {
+          pendingPlatform.connectionStatus = "Disconnected";
+          this.registry.execute("platform-status-changed", {...pendingPlatform}, error);
+        }
+        if (onAttemptFailed) {
+          onAttemptFailed(attempt, error);
+        }
+      }, this.protocol, this.getDisposalSignal());
+    } finally {
+      this.pendingPlatforms.delete(pendingPlatform.name);
+    }
+
+    const platform: Platform = Utils.interopPeerToPlatform(interopPlatform, interopPeer);
+    this.attachPlatform(platform);
+    return platform;
+  }
+
+  /**
+   * Connects to one more interop platform and attaches it to the bus.
+   * The existing context and intent listeners are registered on it.
+   */
+  public async addPlatform(interopPlatform: InteropPlatform): Promise<Platform> {
+    this.checkNotDisposed();
+    if (!interopPlatform || typeof interopPlatform.connect !== "function") {
+      throw new ValidationError("Interop platform is mandatory parameter");
+    }
+    if (this.pendingPlatforms.has(interopPlatform.type) ||
+      this.platforms.some((platform: Platform) => platform.name === interopPlatform.type)) {
+      throw new ValidationError(`There is already a platform named "${interopPlatform.type}"`);
+    }
+
+    const addedPlatform: Platform = await this.connectPlatform(interopPlatform);
+    this.checkNotDisposed();
+    return {...addedPlatform};
+  }
 
-    const unsubscribeFunction = registry.add(`add-intent-${intent}`, handler);
-    const unsubscribe: () => void = () => {
+  /**
+   * Removes a platform from the bus: unregisters the methods the bus registered on it,
+   * drops the subscriptions to its events and disconnects from it.
+   */
+  public async removePlatform(platformName: string): Promise<void> {
+    this.checkNotDisposed();
+    const platform: Platform = this.getUniquePlatform(platformName);
+    this.platforms.splice(this.platforms.indexOf(platform), 1);
+    await this.detachPlatform(platform);
+  }
+
+  /**
+   * Unregisters every method the bus registered, drops every platform subscription and listener
+   * and disconnects from the platforms. Calls made to the bus afterwards are rejected with BusDisposed.
+   */
+  public async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.registry.execute("disposed");
+    this.registry.clear();
+    this.intentHandlers.clear();
+    this.contextHandlers = [];
+
+    await this.channelManager.dispose();
+    const platforms: Platform[] = this.platforms.splice(0, this.platforms.length);
+    await Promise.all(platforms.map((platform: Platform) => this.detachPlatform(platform)));
+  }
+
+  /**
+   * Returns the platforms of the bus with their current connection status,
+   * including the platforms which are still being connected to.
+   */
+  public getPlatforms(): Platform[] {
+    this.checkNotDisposed();
+    return [...this.platforms, ...Array.from(this.pendingPlatforms.values())].map((platform: Platform) => ({...platform}));
+  }
+
+  /**
+   * Cancels the pending connections of the bus with BusDisposed once the bus is disposed.
+   */
+  public getDisposalSignal(): CancellationSignal {
+    return (cancel: (error: Error) => void) => {
+      if (this.disposed) {
+        cancel(new BusDisposed());
+        return () => undefined;
+      }
+      return this.registry.add("disposed", () => cancel(new BusDisposed()));
+    };
+  }
+
+  /**
+   * Adds a listener called whenever the connection status of a platform changes.
+   * The error is passed when the platform disconnected because of an error.
+   */
+  public onPlatformStatusChanged(callback: (platform: Platform, error?: Error) => void): Listener {
+    this.checkNotDisposed();
+    if (typeof callback !== "function") {
+      throw new ValidationError(`Callback must be of type "function"`);
+    }
+
+    const unsubscribeFunction = this.registry.add("platform-status-changed", callback);
+    const unsubscribe: () => Promise<void> = async () => {
+      unsubscribeFunction();
+    };
+
+    return {unsubscribe};
+  }
+
+  /**
+   * Adds a listener called for each peer found to speak an incompatible protocol version or to use another method namespace.
+   */
+  public onProtocolMismatch(callback: (mismatch: ProtocolMismatch) => void): Listener {
+    this.checkNotDisposed();
+    if (typeof callback !== "function") {
+      throw new ValidationError(`Callback must be of type "function"`);
+    }
+
+    const unsubscribeFunction = this.registry.add("protocol-mismatch", callback);
+    const unsubscribe: () => Promise<void> = async () => {
       unsubscribeFunction();
     };
 
+    return {unsubscribe};
+  }
+
+  /**
+   * Registers the JSON schema the context of the type is validated against, replacing the previous one, if any.
+   */
+  public registerContextSchema(contextType: string, schema: JsonSchema): void {
+    this.checkNotDisposed();
+    this.contextValidator.register(contextType, schema);
+  }
+
+  public getSystemChannels(): Promise<Channel[]> {
+    return this.channelManager.getSystemChannels();
+  }
+
+  public getOrCreateChannel(channelId: string): Promise<Channel> {
+    return this.channelManager.getOrCreateChannel(channelId);
+  }
+
+  public joinChannel(channelId: string): Promise<void> {
+    return this.channelManager.joinChannel(channelId);
+  }
+
+  public async getCurrentChannel(): Promise<Channel | null> {
+    this.checkNotDisposed();
+    return this.channelManager.getCurrentChannel();
+  }
+
+  public async leaveCurrentChannel(): Promise<void> {
+    this.checkNotDisposed();
+    this.channelManager.leaveCurrentChannel();
+  }
+
+  /**
+   * Registers a single ContextListener method per platform, advertising the context types
+   * the local listeners accept, and re-registers it whenever that set of types changes.
+   * The methods are unregistered once the last local listener is gone.
+   */
+  private registerContextListenerMethods(): Promise<void> {
+    if (this.contextListenerTypes.length === 0 && !this.contextBridge) {
+      const registrations: Array<Promise<RegisteredMethod>> = Array.from(this.contextListenerMethods.values())
+        .map((contextListenerMethod: ContextListenerMethod) => contextListenerMethod.registration);
+      this.contextListenerMethods.clear();
+      return Utils.unregisterMethods(registrations);
+    }
+    const acceptType: string = this.contextBridge || this.contextListenerTypes.some((contextType: string) => !contextType)
+      ? undefined
+      : Array.from(new Set(this.contextListenerTypes)).join(",");
+
     for (const platform of this.platforms) {
-      platform.platformApi.onMethodRegistered((method: Method) => {
-        if (method.intent && method.intent.length > 0) {
-          for (const methodIntent of method.intent) {
-            if (methodIntent.name === intent) {
-              registry.execute(`add-intent-${intent}`, methodIntent.context);
+      const contextListenerMethod: ContextListenerMethod = this.contextListenerMethods.get(platform.name);
+      if (contextListenerMethod && contextListenerMethod.acceptType === acceptType) {
+        continue;
+      }
+
+      const previousRegistration: Promise<void> = contextListenerMethod
+        ? contextListenerMethod.registration.then((method: RegisteredMethod) => method.unregister(), () => undefined)
+        : Promise.resolve();
+      const registration: Promise<RegisteredMethod> = previousRegistration
+        .then(() => platform.platformApi.register({
+          name: this.protocol.contextListener(platform.name),
+          acceptType,
+          onInvoke: (context: Context, peer: InteropPeerDescriptor) => {
+            const denial: PolicyDenial = this.policy.evaluate({
+              operation: "receiveContext",
+              application: peer ? peer.applicationName : undefined,
+              platform: platform.name,
+              contextType: context ? context.type : undefined
+            });
+            if (denial) {
+              return Promise.reject(new PolicyDenied(denial));
+            }
+            const bridgeMetadata: BridgeMetadata = ContextBridge.getMetadata(context);
+            if (bridgeMetadata && bridgeMetadata.id) {
+              if (this.seenMessages.has(bridgeMetadata.id)) {
+                // Already received from the publisher or from another bridge.
+                return Promise.resolve();
+              }
+              this.seenMessages.add(bridgeMetadata.id);
+            }
+
+            const source: AppMetadata = peer ? Utils.peerToAppMetadata(peer, platform.name) : undefined;
+            if (this.contextBridge) {
+              this.contextBridge.receive(platform, context, source, peer ? peer.id : undefined).catch(() => undefined);
             }
+            const bridged: boolean = bridgeMetadata && bridgeMetadata.source && peer &&
+              (bridgeMetadata.sourcePeerIds || []).indexOf(peer.id) === -1;
+            const metadata: ContextMetadata = {source: bridged ? bridgeMetadata.source : source};
+            return this.notifyContextListeners(ContextBridge.untag(context), metadata);
           }
-        }
-      });
+        }));
+      registration.catch(() => undefined);
+
+      this.contextListenerMethods.set(platform.name, {acceptType, registration});
     }
-    return {unsubscribe};
+
+    return Promise.all(Array.from(this.contextListenerMethods.values())
+      .map((contextListenerMethod: ContextListenerMethod) => contextListenerMethod.registration.catch(() => undefined)))
+      .then(() => undefined);
   }
 
-  public addContextListener(handler: (context: Context) => void): Listener {
-    if (!handler) {
-      throw new Error("Handler is mandatory parameter");
-    }
-    if (typeof handler !== "function") {
-      throw new Error(`Handler must be of type "function"`);
+  /**
+   * Calls the context listeners and resolves once all of them have handled the context.
+   * Rejects if any of them throws or rejects, so that the delivery is reported as failed to the sender.
+   */
+  private notifyContextListeners(context: Context, metadata?: ContextMetadata): Promise<void> {
+    return Utils.invokeHandlers(this.contextHandlers.slice(), context, metadata).then(() => undefined);
+  }
+
+  /**
+   * Announces the bridge on every platform, so that the bridges connected to the same platforms elect the one republishing.
+   */
+  private registerBridgeMethods(): void {
+    for (const platform of this.platforms) {
+      if (this.bridgeMethods.has(platform.name)) {
+        continue;
+      }
+      const registration: Promise<RegisteredMethod> = platform.platformApi.register({
+        name: this.protocol.bridge(platform.name, this.contextBridge.id),
+        onInvoke: () => Promise.resolve()
+      });
+      registration.catch(() => undefined);
+      this.bridgeMethods.set(platform.name, registration);
     }
+  }
 
-    const unsubscribeFunction = registry.add("add-context", handler);
-    const unsubscribe: () => void = () => {
-      unsubscribeFunction();
-    };
+  private async getBridgeIds(platform: Platform): Promise<string[]> {
+    const methods: Method[] = await this.getMethodRegistry(platform).getMethods();
+    return methods
+      .map((method: Method) => this.protocol.getBridgeId(method, platform.name))
+      .filter((bridgeId: string) => bridgeId);
+  }
+
+  /**
+   * Registers a method handling the intent on every platform, so that the intents raised by any peer
+   * reach the local intent listeners. The result of the first listener is returned to the raising peer.
+   */
+  private registerIntentListenerMethods(intent: string): void {
+    if (!this.intentListenerMethods.has(intent)) {
+      this.intentListenerMethods.set(intent, new Map());
+    }
+    const registrations: Map<string, Promise<RegisteredMethod>> = this.intentListenerMethods.get(intent);
 
     for (const platform of this.platforms) {
-      const method: MethodImplementation = {
-        name: `Fdc3.${platform.name}.ContextListener`,
+      if (registrations.has(platform.name)) {
+        continue;
+      }
+
+      const registration: Promise<RegisteredMethod> = platform.platformApi.register({
+        name: this.protocol.intentListener(platform.name, intent),
+        intent: [{name: intent}],
         onInvoke: (context: Context, peer: InteropPeerDescriptor) => {
-          return Promise.resolve(registry.execute("add-context", context));
+          const denial: PolicyDenial = this.policy.evaluate({
+            operation: "receiveIntent",
+            application: peer ? peer.applicationName : undefined,
+            platform: platform.name,
+            intent,
+            contextType: context ? context.type : undefined
+          });
+          if (denial) {
+            return Promise.reject(new PolicyDenied(denial));
+          }
+          return Utils.invokeHandlers(this.intentHandlers.get(intent) || [], context)
+            .then((results: any[]) => results.find((result: any) => typeof result !== "undefined"));
+        }
+      });
+      registration.catch(() => undefined);
+
+      registrations.set(platform.name, registration);
+    }
+  }
+
+  /**
+   * Invokes in parallel the ContextListener methods on the platform which accept the context type,
+   * except for the ones registered by the excluded peers, and reports the outcome of each invocation.
+   * The peers the policy does not let receive the context are reported as denied.
+   * Only the buses, which register a Protocol method, receive the bridge tag of the context.
+   */
+  private async publishContext(platform: Platform, context: Context, excludedPeerIds: string[] = []): Promise<Delivery[]> {
+    let methods: Method[];
+    let busPeerIds: string[];
+    try {
+      const methodRegistry: MethodRegistry = this.getMethodRegistry(platform);
+      methods = await methodRegistry.getMethodsByName(this.protocol.contextListener(platform.name));
+      busPeerIds = (await methodRegistry.getMethodsByName(this.protocol.methodName(platform.name, "Protocol")))
+        .filter((method: Method) => method.peer)
+        .map((method: Method) => method.peer.id);
+    } catch (error) {
+      return [];
+    }
+    const untaggedContext: Context = ContextBridge.untag(context);
+    const deliveryTimeout: number = this.config.deliveryTimeout || DEFAULT_DELIVERY_TIMEOUT;
+    return Promise.all(methods
+      .filter((method: Method) => !method.peer || excludedPeerIds.indexOf(method.peer.id) === -1)
+      .filter((method: Method) => Utils.acceptsContextType(method.acceptType, context.type))
+      .map((method: Method) => {
+        const denial: PolicyDenial = this.policy.evaluate({
+          operation: "broadcast",
+          application: method.peer ? method.peer.applicationName : undefined,
+          platform: platform.name,
+          contextType: context.type
+        });
+        if (denial) {
+          return Utils.deniedDelivery(platform, method, denial);
+        }
+        const isBus: boolean = method.peer && busPeerIds.indexOf(method.peer.id) !== -1;
+        return Utils.deliver(platform, method, isBus ? context : untaggedContext, deliveryTimeout);
+      }));
+  }
+
+  private async unregisterIntentListenerMethods(intent: string): Promise<void> {
+    const registrations: Map<string, Promise<RegisteredMethod>> = this.intentListenerMethods.get(intent);
+    this.intentListenerMethods.delete(intent);
+    await Utils.unregisterMethods(Array.from((registrations || new Map()).values()));
+  }
+
+  private async getIntentMethods(intent: string, context: Context, target?: TargetApp): Promise<PlatformMethod[]> {
+    const targetApp: AppMetadata = target ? this.getTargetApp(target) : undefined;
+
+    const platformsIntentMethods: PlatformMethod[][] = await Promise.all(this.platforms
+      .filter((platform: Platform) => !targetApp || !targetApp.platform || platform.name === targetApp.platform)
+      .map(async (platform: Platform) => {
+        let methods: Method[];
+        try {
+          methods = await this.getMethodRegistry(platform).getMethodsByIntent(intent);
+        } catch (error) {
+          return [];
         }
+        const targetMethods: Method[] = methods
+          .filter((method: Method) => !targetApp || (method.peer && method.peer.applicationName === targetApp.name))
+          .filter((method: Method) => !targetApp || !targetApp.instanceId || method.peer.id === targetApp.instanceId);
+        const acceptedIntents: string[][] = await Promise.all(targetMethods
+          .map((method: Method) => this.getAcceptedIntents(method, context)));
+        return targetMethods
+          .filter((method: Method, index: number) => acceptedIntents[index].indexOf(intent) !== -1)
+          .map((method: Method) => ({platform, method}));
+      }));
+
+    return [].concat(...platformsIntentMethods);
+  }
+
+  /**
+   * Returns the names of the method's intents which accept the context. An intent accepts the context types declared by
+   * its context, or else by the method's acceptType, and any context type if neither is declared. When the method
+   * implements accepts(), it is asked as well, within a timeout so that a slow peer can't stall the discovery.
+   */
+  private async getAcceptedIntents(method: Method, context?: Context): Promise<string[]> {
+    const intentNames: string[] = (method.intent || [])
+      .filter((methodIntent) => !context || Utils.acceptsContextType(methodIntent.context || method.acceptType, context.type))
+      .map((methodIntent) => methodIntent.name);
+    if (!context || intentNames.length === 0 || typeof method.accepts !== "function") {
+      return intentNames;
+    }
+
+    const acceptsTimeout: number = this.config.acceptsTimeout || DEFAULT_ACCEPTS_TIMEOUT;
+    try {
+      const accepted: boolean = await Utils.withTimeout(Promise.resolve().then(() => method.accepts(context)),
+        acceptsTimeout, new Error(`Method "${method.name}" did not answer accepts() in time`));
+      return accepted ? intentNames : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async resolveIntentMethod(intent: string, context: Context, intentCandidates: IntentCandidate[]): Promise<IntentCandidate> {
+    if (!this.config.resolver) {
+      throw new ResolveFailure(ResolveError.ResolverUnavailable, intent);
+    }
+
+    const candidates: IntentResolverCandidate[] = intentCandidates.map(({platform, method, application}: IntentCandidate) => {
+      if (application) {
+        const directoryIntent: AppDirectoryIntent = (application.intents || [])
+          .find((appIntent: AppDirectoryIntent) => appIntent.name === intent);
+        return {
+          appName: application.name,
+          appId: application.appId,
+          displayName: (directoryIntent && directoryIntent.displayName) || application.title
+        };
+      }
+      return {
+        appName: method.peer.applicationName,
+        platform: platform.name,
+        instanceId: method.peer.id,
+        displayName: method.displayName,
+        tooltip: method.tooltip
       };
-      platform.platformApi.register(method);
+    });
+    const resolverTimeout: number = this.config.resolverTimeout || DEFAULT_RESOLVER_TIMEOUT;
+    const timeoutError: ResolveFailure = new ResolveFailure(ResolveError.ResolverTimeout, intent);
+
+    let choice: IntentResolverCandidate;
+    try {
+      choice = await Utils.withTimeout(this.config.resolver(intent, context, candidates), resolverTimeout, timeoutError);
+    } catch (error) {
+      throw error === timeoutError ? error : new ResolveFailure(ResolveError.ResolverUnavailable, intent, undefined, error);
     }
 
-    return {unsubscribe};
+    if (!choice) {
+      throw new ResolveFailure(ResolveError.UserCancelled, intent);
+    }
+
+    let choiceIndex: number = candidates.indexOf(choice);
+    if (choiceIndex === -1) {
+      choiceIndex = candidates.findIndex((candidate: IntentResolverCandidate) =>
+        candidate.appName === choice.appName && candidate.platform === choice.platform &&
+        (!choice.instanceId || candidate.instanceId === choice.instanceId));
+    }
+    if (choiceIndex === -1) {
+      throw new ResolveFailure(ResolveError.ResolverUnavailable, intent, choice.platform,
+        new Error(`Resolver returned unknown application "${choice.appName}"`));
+    }
+
+    return intentCandidates[choiceIndex];
+  }
+
+  private async getDirectoryIntentCandidates(
+    intent: string,
+    context: Context,
+    target: TargetApp,
+    intentMethods: PlatformMethod[]
+  ): Promise<IntentCandidate[]> {
+    const targetApp: AppMetadata = target ? this.getTargetApp(target) : undefined;
+    if (targetApp && targetApp.instanceId) {
+      return [];
+    }
+
+    const directoryApps: AppDirectoryApplication[] = await this.findDirectoryApplicationsByIntent(intent, context && context.type);
+    return directoryApps
+      .filter((application: AppDirectoryApplication) => !targetApp ||
+        application.name === targetApp.name || application.appId === targetApp.name || application.appId === targetApp.appId)
+      .filter((application: AppDirectoryApplication) => !intentMethods
+        .some(({method}: PlatformMethod) => method.peer.applicationName === application.name))
+      .map((application: AppDirectoryApplication) => ({application}));
+  }
+
+  /**
+   * Starts an application declaring the intent in the App Directory and waits for it to register its intent method.
+   */
+  private async launchIntentHandler(intent: string, application: AppDirectoryApplication): Promise<PlatformMethod> {
+    const timeout: number = this.config.appLaunchTimeout || DEFAULT_APP_LAUNCH_TIMEOUT;
+    const cleanup: Array<() => void> = [];
+    const intentMethodRegistered: Promise<PlatformMethod> = this.waitForMethod(this.platforms, (method: Method) =>
+      method.peer && method.peer.applicationName === application.name &&
+      (method.intent || []).some((methodIntent) => methodIntent.name === intent), cleanup);
+
+    try {
+      await this.open(application.appId);
+      return await Utils.withTimeout(intentMethodRegistered, timeout,
+        new OpenFailure(OpenError.AppTimeout, application.name));
+    } finally {
+      cleanup.forEach((cleanupFunction: () => void) => cleanupFunction());
+    }
+  }
+
+  /**
+   * Opens an already running instance: delivers the context to it, if any, and returns its identity.
+   */
+  private async openInstance(targetApp: AppMetadata, context: Context, timeout: number): Promise<AppMetadata> {
+    const instance: AppMetadata = (await this.findInstances(targetApp))[0];
+    if (!instance) {
+      throw new OpenFailure(OpenError.AppNotFound, targetApp.name, targetApp.platform);
+    }
+    this.policy.authorize({operation: "open", application: instance.name, platform: instance.platform, contextType: context ? context.type : undefined});
+
+    if (context) {
+      const platform: Platform = this.getUniquePlatform(instance.platform);
+      const cleanup: Array<() => void> = [];
+      try {
+        await Utils.withTimeout(this.deliverContext(platform, instance.instanceId, context, cleanup), timeout,
+          new OpenFailure(OpenError.AppTimeout, instance.name, instance.platform));
+      } finally {
+        cleanup.forEach((cleanupFunction: () => void) => cleanupFunction());
+      }
+    }
+    return instance;
+  }
+
+  /**
+   * Delivers the context to a single instance, once it has registered a ContextListener method accepting the context type.
+   */
+  private async deliverContext(platform: Platform, instanceId: string, context: Context, cleanup: Array<() => void>): Promise<void> {
+    const contextListener: PlatformMethod = await this.waitForMethod([platform], (method: Method) =>
+      method.name === this.protocol.contextListener(platform.name) && method.peer && method.peer.id === instanceId &&
+      Utils.acceptsContextType(method.acceptType, context.type), cleanup);
+    await platform.platformApi.invoke(contextListener.method, context);
+  }
+
+  /**
+   * Resolves with the first method, already registered or registered later, that matches the predicate.
+   * The functions which stop waiting are added to cleanup.
+   */
+  private waitForMethod(platforms: Platform[], predicate: (method: Method) => boolean, cleanup: Array<() => void>): Promise<PlatformMethod> {
+    return new Promise((resolve) => {
+      for (const platform of platforms) {
+        const methodRegistry: MethodRegistry = this.getMethodRegistry(platform);
+        cleanup.push(methodRegistry.onMethodAdded((method: Method) => {
+          if (predicate(method)) {
+            resolve({platform, method});
+          }
+        }));
+        methodRegistry.getMethods()
+          .then((methods: Method[]) => {
+            const method: Method = methods.find(predicate);
+            if (method) {
+              resolve({platform, method});
+            }
+          })
+          .catch(() => undefined);
+      }
+    });
+  }
+
+  private async findDirectoryApplication(app: string): Promise<AppDirectoryApplication> {
+    if (!this.appDirectory) {
+      return undefined;
+    }
+    try {
+      return await this.appDirectory.findApplication(app);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async findDirectoryApplicationsByIntent(intent: string, contextType?: string): Promise<AppDirectoryApplication[]> {
+    if (!this.appDirectory) {
+      return [];
+    }
+    try {
+      return await this.appDirectory.findApplicationsByIntent(intent, contextType);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private async findDirectoryIntentsByContextType(contextType: string): Promise<AppDirectoryIntentMatch[]> {
+    if (!this.appDirectory) {
+      return [];
+    }
+    try {
+      return await this.appDirectory.findIntentsByContextType(contextType);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private getOpenTargetApp(app: TargetApp): AppMetadata {
+    if (typeof app !== "string") {
+      return app;
+    }
+
+    const platformName: string = this.getPlatformName(app);
+    return platformName ? {name: this.getApplicationName(app), platform: platformName} : {name: app};
+  }
+
+  private getTargetApp(target: TargetApp): AppMetadata {
+    if (typeof target !== "string") {
+      return target;
+    }
+
+    const platformName: string = this.getPlatformName(target);
+    if (platformName && this.platforms.some((platform: Platform) => platform.name === platformName)) {
+      return {name: this.getApplicationName(target), platform: platformName};
+    }
+    return {name: target};
   }
 
   private getPlatformName(app: string): string {
@@ -226,17 +1151,17 @@ class Fdc3Impl implements DesktopAgent {
 
   private async getPlatform(appName: string, platformName?: string): Promise<Platform> {
     if (platformName) {
-      try {
-        const platform: Platform = this.getUniquePlatform(platformName);
-        return platform;
-      } catch (error) {
-        throw new Error(error.message || this.defaultErrorMessage);
-      }
+      return this.getUniquePlatform(platformName);
     } else {
       const platformsSupportingListApplicationsMethod: Platform[] = [];
       for (const platform of this.platforms) {
-        const platformMethods = await platform.platformApi.discoverMethods();
-        if (this.platformHasMethod(platform, platformMethods, "ListApplications")) {
+        let platformHasListApplications: boolean;
+        try {
+          platformHasListApplications = await this.platformHasMethod(platform, "ListApplications");
+        } catch (error) {
+          continue;
+        }
+        if (platformHasListApplications) {
           platformsSupportingListApplicationsMethod.push(platform);
         }
       }
@@ -250,21 +1175,25 @@ class Fdc3Impl implements DesktopAgent {
       }
 
       if (platformsWithProvidedApp.length === 0) {
-        throw new Error(`There are no platforms with application named '${appName}'.`);
+        throw new OpenFailure(OpenError.AppNotFound, appName);
       }
       if (platformsWithProvidedApp.length > 1) {
-        throw new Error(`There are multiple platforms with application named '${appName}'.`);
+        throw new OpenFailure(OpenError.ResolverUnavailable, appName, undefined,
+          new Error(`There are multiple platforms with application named '${appName}'.`));
       }
 
-      const platformsSupportingStartApplicationMethod: Platform[] = [];
-      for (const platform of platformsWithProvidedApp) {
-        const platformMethods = await platform.platformApi.discoverMethods();
-        if (this.platformHasMethod(platform, platformMethods, "StartApplication")) {
-          platformsSupportingStartApplicationMethod.push(platform);
-        }
+      const appPlatform: Platform = platformsWithProvidedApp[0];
+      let appPlatformHasStartApplication: boolean;
+      try {
+        appPlatformHasStartApplication = await this.platformHasMethod(appPlatform, "StartApplication");
+      } catch (error) {
+        throw new PlatformUnavailable(appPlatform.name, `Unable to discover methods of platform "${appPlatform.name}"`, error);
+      }
+      if (!appPlatformHasStartApplication) {
+        throw new PlatformUnavailable(appPlatform.name, `Platform "${appPlatform.name}" does not support starting applications`);
       }
 
-      return platformsSupportingStartApplicationMethod[0];
+      return appPlatform;
     }
   }
 
@@ -272,21 +1201,150 @@ class Fdc3Impl implements DesktopAgent {
     const fdc3Platforms: Platform[] = this.platforms
       .filter((fdc3Platform: Platform) => fdc3Platform.name === platformName);
     if (fdc3Platforms.length === 0) {
-      throw new Error(`There is no platform named "${platformName}"`);
+      throw new PlatformUnavailable(platformName, `There is no platform named "${platformName}"`);
     }
     if (fdc3Platforms.length > 1) {
-      throw new Error(`There are multiple platforms named "${platformName}"`);
+      throw new PlatformUnavailable(platformName, `There are multiple platforms named "${platformName}"`);
     }
     return fdc3Platforms[0];
   }
 
-  private platformHasMethod(platform: Platform, platformMethods: any[], methodName: string): boolean {
-    const methodFullName: string = `Fdc3.${platform.name}.${methodName}`;
-    return platformMethods.filter((method: any) => method.name === methodFullName).length > 0;
+  private async platformHasMethod(platform: Platform, methodName: string): Promise<boolean> {
+    const methodFullName: string = this.protocol.methodName(platform.name, methodName);
+    const platformMethods: Method[] = await this.getMethodRegistry(platform).getMethodsByName(methodFullName);
+    return platformMethods.length > 0;
+  }
+
+  private async detachPlatform(platform: Platform): Promise<void> {
+    (this.platformSubscriptions.get(platform.name) || [])
+      .forEach((subscription: Subscription) => subscription.unsubscribe().catch(() => undefined));
+    this.platformSubscriptions.delete(platform.name);
+    this.getMethodRegistry(platform).dispose();
+    this.methodRegistries.delete(platform.name);
+
+    const registrations: Array<Promise<RegisteredMethod>> = [];
+    const contextListenerMethod: ContextListenerMethod = this.contextListenerMethods.get(platform.name);
+    if (contextListenerMethod) {
+      registrations.push(contextListenerMethod.registration);
+      this.contextListenerMethods.delete(platform.name);
+    }
+    if (this.bridgeMethods.has(platform.name)) {
+      registrations.push(this.bridgeMethods.get(platform.name));
+      this.bridgeMethods.delete(platform.name);
+    }
+    this.intentListenerMethods.forEach((intentRegistrations: Map<string, Promise<RegisteredMethod>>) => {
+      if (intentRegistrations.has(platform.name)) {
+        registrations.push(intentRegistrations.get(platform.name));
+        intentRegistrations.delete(platform.name);
+      }
+    });
+
+    await Promise.all([
+      Utils.unregisterMethods(registrations),
+      this.channelManager.detachPlatform(platform)
+    ]);
+    await platform.platformApi.disconnect().catch(() => undefined);
+  }
+
+  private checkNotDisposed(): void {
+    if (this.disposed) {
+      throw new BusDisposed();
+    }
+  }
+
+  private watchPlatformStatus(platform: Platform): void {
+    let disconnected: boolean = false;
+    let subscribing: boolean = true;
+    const updateStatus = (connectionStatus: string, error?: Error) => {
+      if (subscribing || platform.connectionStatus === connectionStatus) {
+        return;
+      }
+      const reconnected: boolean = disconnected && connectionStatus === "Connected";
+      disconnected = connectionStatus === "Disconnected" || (disconnected && !reconnected);
+      platform.connectionStatus = connectionStatus;
+      platform.online = connectionStatus === "Connected";
+      if (reconnected && this.methodRegistries.has(platform.name)) {
+        // The methods of the peers which left while the bus was disconnected are still cached.
+        this.getMethodRegistry(platform).refresh().catch(() => undefined);
+      }
+      this.registry.execute("platform-status-changed", {...platform}, error);
+    };
+
+    this.platformSubscriptions.set(platform.name, [
+      // Disconnected is taken from onDisconnected only, which also passes the error.
+      platform.platformApi.onConnectionStatusChanged((connectionStatus) => {
+        if (connectionStatus !== "Disconnected") {
+          updateStatus(connectionStatus);
+        }
+      }),
+      platform.platformApi.onDisconnected((error?: Error) => updateStatus("Disconnected", error))
+    ]);
+    // Some peers replay their past statuses on subscription. The platform already has the current one.
+    subscribing = false;
+    updateStatus(platform.platformApi.connectionStatus);
+  }
+
+  /**
+   * Checks the protocol of each peer registering protocol methods on the platform, once per peer: the namespace of
+   * its methods and the version answered by its Protocol method. Peers without a Protocol method predate the
+   * versioning and speak the legacy version, which is compatible, so they are never reported.
+   */
+  private watchProtocol(platform: Platform): void {
+    const checkedPeers: Set<string> = new Set();
+    const checkMethod = (method: Method) => {
+      if (!method.peer || method.peer.id === platform.platformApi.id || checkedPeers.has(method.peer.id)) {
+        return;
+      }
+      const namespace: string = this.protocol.getMethodNamespace(method, platform.name);
+      if (namespace && namespace !== this.protocol.namespace) {
+        checkedPeers.add(method.peer.id);
+        const mismatch: ProtocolMismatch = {
+          platform: platform.name,
+          peer: Utils.peerToAppMetadata(method.peer, platform.name),
+          namespace,
+          reason: `Peer "${method.peer.applicationName}" uses the method namespace "${namespace}" instead of "${this.protocol.namespace}"`
+        };
+        this.registry.execute("protocol-mismatch", mismatch);
+      } else if (this.protocol.isProtocolMethod(method, platform.name)) {
+        checkedPeers.add(method.peer.id);
+        this.checkPeerProtocolVersion(platform, method).catch(() => undefined);
+      }
+    };
+
+    const methodRegistry: MethodRegistry = this.getMethodRegistry(platform);
+    methodRegistry.onMethodAdded(checkMethod);
+    methodRegistry.getMethods()
+      .then((methods: Method[]) => methods.forEach(checkMethod))
+      .catch(() => undefined);
+  }
+
+  /**
+   * Reports the peer when the version answered by its Protocol method is incompatible with the version of the bus.
+   */
+  private async checkPeerProtocolVersion(platform: Platform, protocolMethod: Method): Promise<void> {
+    const descriptor: ProtocolDescriptor = (await platform.platformApi.invoke(protocolMethod)).result;
+    const version: string = descriptor && descriptor.version ? descriptor.version : this.protocol.legacyVersion;
+    if (this.protocol.isCompatible(version)) {
+      return;
+    }
+
+    const peer: InteropPeerDescriptor = protocolMethod.peer;
+    const mismatch: ProtocolMismatch = {
+      platform: platform.name,
+      peer: Utils.peerToAppMetadata(peer, platform.name),
+      namespace: this.protocol.namespace,
+      version,
+      reason: `Peer "${peer.applicationName}" speaks protocol ${version}, which is incompatible with protocol ${this.protocol.version} of the bus`
+    };
+    this.registry.execute("protocol-mismatch", mismatch);
+  }
+
+  private getMethodRegistry(platform: Platform): MethodRegistry {
+    return this.methodRegistries.get(platform.name);
   }
 
   private async platformHasProvidedApp(platform: Platform, app: string): Promise<boolean> {
-    const listApplicationsMethodName: string = `Fdc3.${platform.name}.ListApplications`;
+    const listApplicationsMethodName: string = this.protocol.listApplications(platform.name);
     let platformApplications: Application[];
     try {
       const listApplicationsInvocation = await platform.platformApi.invoke(listApplicationsMethodName);
@@ -297,20 +1355,43 @@ class Fdc3Impl implements DesktopAgent {
     const providedAppList: Application[] = platformApplications
       .filter((application: Application) => application.name === app);
     if (providedAppList.length > 1) {
-      throw new Error(`There are multiple applications named '${app}'.`);
+      throw new OpenFailure(OpenError.ResolverUnavailable, app, platform.name,
+        new Error(`There are multiple applications named '${app}'.`));
     }
     return providedAppList.length === 1;
   }
 }
 
-export default async function Fdc3Bus(interopPlatforms: any[], methods: MethodImplementation[]): Promise<Fdc3Impl> {
+export default async function Fdc3Bus(
+  interopPlatforms: any[],
+  methods: MethodImplementation[],
+  config: Fdc3BusConfig = {}
+): Promise<Fdc3Impl> {
   const interopPlatformNames: string[] = interopPlatforms.map((interopPlatform) => interopPlatform.type);
   const interopPlatformNamesSet: Set<string> = new Set(interopPlatformNames);
   if (interopPlatformNames.length !== interopPlatformNamesSet.size) {
-    throw new Error("Multiple platforms have the same type.");
+    throw new ValidationError("Multiple platforms have the same type.");
+  }
+
+  const connectionStrategy: ConnectionStrategy = config.connection || {};
+  const protocol: Protocol = new Protocol(config.protocol);
+  if (!connectionStrategy.startDegraded) {
+    const platforms: any = await Utils.interopPlatformsToPlatforms(interopPlatforms, methods, connectionStrategy, protocol);
+    const fdc3ImplObj: any = new Fdc3Impl(platforms, config, methods);
+    return fdc3ImplObj;
   }
 
-  const platforms: any = await Utils.interopPlatformsToPlatforms(interopPlatforms, methods);
-  const fdc3ImplObj: any = new Fdc3Impl(platforms);
-  return fdc3ImplObj;
+  const degradedFdc3ImplObj: Fdc3Impl = new Fdc3Impl([], config, methods);
+  const firstAttempts: Promise<any> = Promise.all(interopPlatforms.map((interopPlatform: InteropPlatform) => new Promise((resolve) => {
+    degradedFdc3ImplObj.connectPlatform(interopPlatform, () => resolve())
+      .then(() => resolve(), () => resolve());
+  })));
+  // The platforms whose first attempt has not completed by the startup deadline keep connecting in the background.
+  let startupTimer: any;
+  await Promise.race([
+    firstAttempts,
+    new Promise((resolve) => startupTimer = setTimeout(resolve, connectionStrategy.startupTimeout || DEFAULT_STARTUP_TIMEOUT))
+  ]);
+  clearTimeout(startupTimer);
+  return degradedFdc3ImplObj;
 }
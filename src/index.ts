@@ -16,11 +16,20 @@
  */
 
 import Fdc3Impl from "./fdc3Impl";
+import {BusDisposed, ChannelFailure, Fdc3Error, OpenFailure, PlatformUnavailable, PolicyDenied, ResolveFailure, ValidationError} from "./errors";
 
 if (typeof window !== "undefined") {
   (window as any).Fdc3Impl = Fdc3Impl;
 }
 
 (Fdc3Impl as any).default = Fdc3Impl;
+(Fdc3Impl as any).Fdc3Error = Fdc3Error;
+(Fdc3Impl as any).OpenFailure = OpenFailure;
+(Fdc3Impl as any).ResolveFailure = ResolveFailure;
+(Fdc3Impl as any).PlatformUnavailable = PlatformUnavailable;
+(Fdc3Impl as any).ValidationError = ValidationError;
+(Fdc3Impl as any).ChannelFailure = ChannelFailure;
+(Fdc3Impl as any).BusDisposed = BusDisposed;
+(Fdc3Impl as any).PolicyDenied = PolicyDenied;
 
 export = Fdc3Impl;
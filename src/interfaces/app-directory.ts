@@ -0,0 +1,68 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * An intent an application declares in the FDC3 App Directory.
+ */
+export interface AppDirectoryIntent {
+  name: string;                       // The name of the intent, e.g. "ViewChart".
+  displayName?: string;               // User friendly name of the intent.
+  contexts?: string[];                // The context types the application accepts with the intent, e.g. ["fdc3.instrument"].
+}
+
+/**
+ * An application definition as served by an FDC3 App Directory.
+ */
+export interface AppDirectoryApplication {
+  appId: string;                      // Unique id of the application in the directory.
+  name: string;                       // The name of the application, as known to the interop platforms.
+  title?: string;                     // User friendly name of the application.
+  version?: string;
+  manifest?: string;
+  manifestType?: string;
+  intents?: AppDirectoryIntent[];     // The intents the application can handle once started.
+}
+
+/**
+ * An intent declared in the App Directory together with the application declaring it.
+ */
+export interface AppDirectoryIntentMatch {
+  intent: AppDirectoryIntent;
+  application: AppDirectoryApplication;
+}
+
+/**
+ * Where the App Directory reads the application definitions from.
+ * Exactly one of the sources is expected to be set.
+ */
+export interface AppDirectoryConfig {
+  url?: string;                       /* Endpoint returning the application definitions, either as an array or as
+                                         {applications: [...]} like the App Directory search API (e.g. http://localhost:3000/v1/apps/search). */
+  file?: string;                      // Path to a local JSON file with the same content. Node.js only.
+  applications?: AppDirectoryApplication[];  // Application definitions passed directly.
+  log?: (failure: AppDirectoryLoadFailure) => void;  /* Receives every failure to load the definitions, after which the directory
+                                                        is treated as empty. Defaults to console.warn. */
+}
+
+/**
+ * A failure to load the application definitions, e.g. a missing file or an HTTP error status.
+ */
+export interface AppDirectoryLoadFailure {
+  source: string;                     // The url or the file the definitions were loaded from.
+  error: any;                         // The error the loading failed with.
+  message: string;
+}
@@ -60,7 +60,7 @@ export interface InteropPlatform {
   ): Promise<InteropPeer>;
 }
 
-enum InteropFeature {
+export enum InteropFeature {
   InvokeMethod = "InvokeMethod",
   SubscribeStream = "SubscribeStream",
   RegisterMethod = "RegisterMethod",
@@ -118,7 +118,7 @@ export interface InteropPeer extends InteropClient, InteropServer, InteropPeerDe
  * |                                             |
  * +---------------------------------------------+
  */
-enum ConnectionStatus {
+export enum ConnectionStatus {
   Connecting = "Connecting",          /* A connection request has been started via a call to connect() but the connection has not
                                            yet been completed. */
   Connected = "Connected",            // Connected to the Platform. All data should be up to date.
@@ -207,7 +207,7 @@ interface InteropClient {
 /**
  * Invocation result object returned after a successful method invocation.
  */
-interface InvokeResult {
+export interface InvokeResult {
   method: Method;                     // Identifies the method that was executed as well as the peer that registered/executed it.
   arguments?: any;                    // An object containing the arguments used for the invocation.
   result?: any;                       // Result of the method invocation.
@@ -216,7 +216,7 @@ interface InvokeResult {
 /**
  * An InteropClient's stream subscription.
  */
-interface StreamSubscription extends Subscription {
+export interface StreamSubscription extends Subscription {
   arguments?: object;                 // An object containing the arguments used for the subscription.
   stream: Stream;                     // Reference to the stream that the subscription is to.
 }
@@ -251,7 +251,7 @@ interface InteropServer {
 /**
  * @type Specifies an unsubscribe function used to unsubscribe event listeners.
  */
-interface Subscription {
+export interface Subscription {
   /**
    * @return {Promise<void>} Promise that resolves when the subscription successfully closed.
    */
@@ -314,13 +314,13 @@ export interface Method extends MethodDefinition {
   peer: InteropPeerDescriptor;                       // Identifies the peer that registered the method.
 }
 
-interface RegisteredMethod extends Method {
+export interface RegisteredMethod extends Method {
   unregister: () => Promise<void>;
 }
 
 type StreamDefinition = MethodDefinition;
-type Stream = Method;
-type RegisteredStream = RegisteredMethod;
+export type Stream = Method;
+export type RegisteredStream = RegisteredMethod;
 
 interface MethodHandler {
   /**
@@ -353,7 +353,7 @@ interface StreamHandler {
 /**
  * Defines a stream including the handler that is being registered.
  */
-interface StreamImplementation extends StreamDefinition, StreamHandler {
+export interface StreamImplementation extends StreamDefinition, StreamHandler {
 }
 
 /**
@@ -364,7 +364,7 @@ interface StreamImplementation extends StreamDefinition, StreamHandler {
  * Server (stream producer) receives an object implementing this interface and calls its methods
  * to push new items or to complete the stream.
  */
-interface StreamObserver {
+export interface StreamObserver {
 
   /**
    * On client side this method is called for each new received item.
@@ -0,0 +1,202 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AppMetadata, Context} from "./interface";
+import {AppDirectoryConfig} from "./app-directory";
+
+/**
+ * An application able to handle a raised intent, as presented to an IntentResolver.
+ */
+export interface IntentResolverCandidate {
+  appName: string;        // The name of the application which registered the intent method.
+  appId?: string;         // The App Directory id of the application, if it is defined in the directory.
+  platform?: string;      // The name of the platform the application is connected to. Not set for applications which are not running yet.
+  instanceId?: string;    // The id of the running instance which registered the intent method. Not set for applications which are not running yet.
+  displayName?: string;   // User friendly name of the intent method, if provided by the application.
+  tooltip?: string;       // Tooltip describing the intent method, if provided by the application.
+}
+
+/**
+ * Called when a raised intent can be handled by more than one application.
+ * Resolves with the chosen candidate, or with null/undefined when the user cancels the resolution.
+ */
+export type IntentResolver = (
+  intent: string,
+  context: Context,
+  candidates: IntentResolverCandidate[]
+) => Promise<IntentResolverCandidate | null | undefined>;
+
+/**
+ * Controls how the bus (re)connects to the interop platforms.
+ * Failed connection attempts are retried with exponential backoff: initialDelay, initialDelay * backoffFactor, ...
+ * up to maxDelay, each delay randomized by +/- jitter to avoid reconnection storms.
+ */
+export interface ConnectionStrategy {
+  initialDelay?: number;              // Milliseconds before the first retry. Defaults to 2000.
+  maxDelay?: number;                  // Upper limit of the delay between retries in milliseconds. Defaults to 30000.
+  backoffFactor?: number;             // Multiplier applied to the delay after each failed attempt. Defaults to 2.
+  jitter?: number;                    // Fraction (0 - 1) by which each delay is randomized. Defaults to 0.2.
+  maxAttempts?: number;               // Number of attempts after which the platform is given up. Unlimited by default.
+  timeout?: number;                   // Milliseconds after which no more attempts are made. Unlimited by default.
+  startDegraded?: boolean;            /* When set, the bus resolves as soon as every platform has connected or failed its first attempt,
+                                         or once startupTimeout has passed. The platforms which are still down are attached in the
+                                         background once they connect. */
+  startupTimeout?: number;            // Milliseconds after which a degraded start resolves without waiting for the first attempts. Defaults to 10000.
+}
+
+/**
+ * Controls which context types cross the bridge. Deny takes precedence over allow.
+ */
+export interface ContextBridgeRule {
+  allow?: string[];                   // Context types which may cross. All types may cross when not set.
+  deny?: string[];                    // Context types which never cross.
+}
+
+/**
+ * Enables the bridge mode, in which the context published on any platform is republished to all the other platforms.
+ * Bridged context is tagged with a message id and the platforms it was published on, so that it is never sent back to
+ * those platforms nor to its publisher, and is bridged once even when several bridging buses are connected.
+ */
+export interface ContextBridgeConfig {
+  inbound?: {[platformName: string]: ContextBridgeRule};   // Which context may be bridged into the platform.
+  outbound?: {[platformName: string]: ContextBridgeRule};  // Which context published on the platform may be bridged to the others.
+}
+
+/**
+ * The wire contract the bus speaks with the other peers.
+ */
+export interface ProtocolConfig {
+  namespace?: string;                 // First segment of the method names, as in <namespace>.<platform>.ContextListener. Defaults to "Fdc3".
+}
+
+/**
+ * Describes a peer which the bus cannot talk to, as it uses another method namespace or an incompatible protocol version.
+ */
+export interface ProtocolMismatch {
+  platform: string;                   // The platform the peer is connected to.
+  peer: AppMetadata;                  // The application and instance of the peer.
+  namespace: string;                  // The namespace of the peer's methods.
+  version?: string;                   // The incompatible protocol version of the peer. Not set when the namespace differs.
+  reason: string;                     // Human readable description of the mismatch.
+}
+
+/**
+ * The calls checked by the authorization policy. The outgoing ones are made by the bus, the incoming ones by the
+ * other peers invoking the methods of the bus.
+ */
+export type PolicyOperation = "broadcast" | "raiseIntent" | "open" | "receiveContext" | "receiveIntent";
+
+/**
+ * A call checked by the authorization policy.
+ */
+export interface PolicyRequest {
+  operation: PolicyOperation;
+  application?: string;               // The other application: the receiver of outgoing calls, the caller of incoming ones.
+  platform?: string;                  // The platform the call goes through.
+  intent?: string;                    // The intent raised or received, if any.
+  contextType?: string;               // The type of the context sent or received, if any.
+}
+
+/**
+ * Allows or denies the calls matching all of its criteria. A criterion which is not set matches any call.
+ * Values ending with "*" match by prefix, e.g. "fdc3.*".
+ */
+export interface PolicyRule {
+  effect: "allow" | "deny";
+  name?: string;                      // Identifies the rule in the denials.
+  operations?: PolicyOperation[];     // The operations the rule applies to.
+  applications?: string[];            // Names of the other applications, as in InteropPeerDescriptor.applicationName.
+  platforms?: string[];               // Names of the platforms.
+  intents?: string[];                 // Intents raised or received.
+  contextTypes?: string[];            // Types of the context sent or received.
+}
+
+/**
+ * Restricts the calls the bus makes and accepts. The rules are evaluated in order and the first matching rule applies.
+ */
+export interface PolicyConfig {
+  rules?: PolicyRule[];
+  defaultEffect?: "allow" | "deny";   // Applies to the calls no rule matches. Defaults to "allow".
+  log?: (denial: PolicyDenial) => void;  // Receives every denied call. Defaults to console.warn.
+}
+
+/**
+ * A call denied by the authorization policy, as written to the log.
+ */
+export interface PolicyDenial {
+  request: PolicyRequest;
+  rule?: PolicyRule;                  // The rule which denied the call. Not set when denied by the default effect.
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * The subset of JSON Schema the context is validated against.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: any;
+  enum?: any[];
+  properties?: {[name: string]: JsonSchema};
+  required?: string[];
+  additionalProperties?: boolean;     // Whether properties not listed in properties are allowed. Defaults to true.
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+}
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+/**
+ * Validates the context the bus sends against the schema of its type. The standard FDC3 context types have built-in
+ * schemas; the schemas of other types can be registered. Context of a type without a schema is not validated.
+ */
+export interface ContextValidationConfig {
+  mode?: "strict" | "warn" | "off";   /* strict rejects invalid context, warn only logs it and off skips the validation.
+                                         Defaults to "warn". */
+  schemas?: {[contextType: string]: JsonSchema};  // Schemas of custom context types. Can also replace the built-in ones.
+  log?: (failure: ContextValidationFailure) => void;  // Receives every invalid context. Defaults to console.warn.
+}
+
+/**
+ * Context which does not match the schema of its type.
+ */
+export interface ContextValidationFailure {
+  contextType: string;
+  errors: string[];                   // One entry per violation, e.g. 'id.ticker must be of type "string"'.
+  message: string;
+}
+
+/**
+ * Optional configuration of the Fdc3Bus.
+ */
+export interface Fdc3BusConfig {
+  resolver?: IntentResolver;          // Used to pick an application when multiple applications handle the raised intent.
+  resolverTimeout?: number;           // Milliseconds to wait for the resolver before failing with ResolveError.ResolverTimeout.
+  connection?: ConnectionStrategy;    // How to connect to the interop platforms.
+  appDirectory?: AppDirectoryConfig;  // FDC3 App Directory used to find applications and the intents they declare.
+  appLaunchTimeout?: number;          /* Milliseconds to wait for a launched application to register the listener for the intent or
+                                         the context it was launched with. Defaults to 30000. */
+  acceptsTimeout?: number;            // Milliseconds to wait for a method's accepts(context) answer. Defaults to 1000.
+  bridge?: ContextBridgeConfig;       // Republishes the context published on each platform to the other platforms.
+  contextValidation?: ContextValidationConfig;  // Validates the context of broadcast, raiseIntent and open against its schema.
+  policy?: PolicyConfig;              // Authorizes the outgoing broadcast, raiseIntent and open calls and the incoming context and intents.
+  protocol?: ProtocolConfig;          // Method namespace of the deployment. All the buses and apps on the platforms must use the same one.
+  deliveryTimeout?: number;           // Milliseconds to wait for each peer to receive broadcast context. Defaults to 5000.
+  receiveOwnBroadcasts?: boolean;     /* When set, the context listeners of the bus also receive the context it broadcasts.
+                                         By default broadcast skips the peer of the bus on every platform. */
+}
@@ -0,0 +1,64 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DesktopAgent} from "./interface";
+import {InteropPlatform, MethodImplementation} from "./client-api";
+import {Fdc3BusConfig} from "./config";
+import ConformanceEnvironment from "../conformance/conformanceEnvironment";
+
+/**
+ * Creates the DesktopAgent under test, connected to the given simulated platforms.
+ * The config carries the resolver and the timeouts some of the cases rely on; implementations may ignore it.
+ */
+export type ConformanceAgentFactory = (platforms: InteropPlatform[], config?: Fdc3BusConfig) => Promise<DesktopAgent>;
+
+/**
+ * A single check of the DesktopAgent behaviour. The case fails when run() rejects.
+ */
+export interface ConformanceCase {
+  name: string;                       // "<DesktopAgent method>: <expected behaviour>"
+  run: (environment: ConformanceEnvironment) => Promise<void>;
+}
+
+/**
+ * An application a simulated platform can list and start.
+ */
+export interface ConformanceApp {
+  name: string;
+  methods?: (platformName: string) => MethodImplementation[];  // The methods the application registers once started.
+}
+
+export interface ConformanceResult {
+  name: string;
+  passed: boolean;
+  error?: string;                     // Why the case failed.
+  duration: number;                   // Milliseconds the case took.
+}
+
+export interface ConformanceReport {
+  passed: number;
+  failed: number;
+  results: ConformanceResult[];
+}
+
+export interface ConformanceOptions {
+  filter?: string | RegExp;           // Runs only the cases whose name contains the string or matches the expression.
+  caseTimeout?: number;               // Milliseconds after which a case fails. Defaults to 5000.
+  onResult?: (result: ConformanceResult) => void;  // Called as each case completes, e.g. to print progress.
+  includeBusCases?: boolean;          /* Also runs the cases of the Fdc3Bus configuration and API, e.g. its policy.
+                                         Only agents created by Fdc3Bus pass them. */
+}
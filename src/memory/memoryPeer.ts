@@ -0,0 +1,172 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {default as CallbackRegistryFactory, CallbackRegistry} from "callback-registry";
+
+import {
+  ConnectionStatus,
+  InteropPeer,
+  InteropPeerDescriptor,
+  InvokeResult,
+  Method,
+  MethodImplementation,
+  RegisteredMethod,
+  RegisteredStream,
+  Stream,
+  StreamImplementation,
+  StreamObserver,
+  StreamSubscription,
+  Subscription
+} from "../interfaces/client-api";
+import MemoryPlatform from "./memoryPlatform";
+
+/**
+ * A connection of an application to a MemoryPlatform.
+ * Every call is served by the platform, in the same process.
+ */
+export default class MemoryPeer implements InteropPeer {
+  public readonly id: string;
+  public readonly applicationName: string;
+  public readonly descriptor: InteropPeerDescriptor;
+  public connectionStatus: ConnectionStatus;
+  private platform: MemoryPlatform;
+  private apiMetadata: string;
+  private statusHistory: ConnectionStatus[] = [];
+  private registry: CallbackRegistry = CallbackRegistryFactory();
+
+  constructor(platform: MemoryPlatform, id: string, applicationName: string, apiMetadata?: string) {
+    this.platform = platform;
+    this.id = id;
+    this.applicationName = applicationName;
+    this.apiMetadata = apiMetadata;
+    this.descriptor = {
+      isConnected: false,
+      applicationName,
+      id,
+      getApiMetadata: () => this.getApiMetadata(),
+      onApiMetadataChanged: (callback: (metadata: string) => void) => this.onApiMetadataChanged(callback)
+    };
+    Object.defineProperty(this.descriptor, "isConnected", {get: () => this.isConnected, enumerable: true});
+    this.setConnectionStatus(ConnectionStatus.Connecting);
+  }
+
+  get isConnected(): boolean {
+    return this.connectionStatus === ConnectionStatus.Connected;
+  }
+
+  public invoke(method: string | Method, args?: any): Promise<InvokeResult> {
+    return this.platform.invoke(this, method, args);
+  }
+
+  public subscribe(stream: string | Stream, observer: StreamObserver, args?: any): Promise<StreamSubscription> {
+    return this.platform.subscribe(this, stream, observer, args);
+  }
+
+  public async discoverPeers(): Promise<InteropPeerDescriptor[]> {
+    this.platform.checkConnected(this);
+    return this.platform.getPeers();
+  }
+
+  public async discoverMethods(): Promise<Method[]> {
+    this.platform.checkConnected(this);
+    return this.platform.getMethods();
+  }
+
+  public async discoverStreams(): Promise<Stream[]> {
+    this.platform.checkConnected(this);
+    return this.platform.getStreams();
+  }
+
+  public onMethodRegistered(callback: (method: Method) => void): Subscription {
+    return this.platform.addListener(this, "method-registered", callback);
+  }
+
+  public onMethodUnregistered(callback: (method: Method) => void): Subscription {
+    return this.platform.addListener(this, "method-unregistered", callback);
+  }
+
+  public onStreamRegistered(callback: (stream: Stream) => void): Subscription {
+    return this.platform.addListener(this, "stream-registered", callback);
+  }
+
+  public onStreamUnregistered(callback: (stream: Stream) => void): Subscription {
+    return this.platform.addListener(this, "stream-unregistered", callback);
+  }
+
+  public onPeerConnected(callback: (peer: InteropPeerDescriptor) => void): Subscription {
+    return this.platform.addListener(this, "peer-connected", callback);
+  }
+
+  public onPeerDisconnected(callback: (peer: InteropPeerDescriptor) => void): Subscription {
+    return this.platform.addListener(this, "peer-disconnected", callback);
+  }
+
+  public register(methodImplementation: MethodImplementation): Promise<RegisteredMethod> {
+    return this.platform.registerMethod(this, methodImplementation);
+  }
+
+  public registerStream(streamImplementation: StreamImplementation): Promise<RegisteredStream> {
+    return this.platform.registerStream(this, streamImplementation);
+  }
+
+  public async publishApiMetadata(apiMetadata: string): Promise<void> {
+    this.platform.checkConnected(this);
+    this.apiMetadata = apiMetadata;
+    this.registry.execute("api-metadata-changed", apiMetadata);
+  }
+
+  public async getApiMetadata(): Promise<string> {
+    return this.apiMetadata;
+  }
+
+  public onApiMetadataChanged(callback: (metadata: string) => void): void {
+    this.registry.add("api-metadata-changed", callback);
+  }
+
+  /**
+   * The statuses the peer went through are replayed to the callback on subscription.
+   */
+  public onConnectionStatusChanged(callback: (status: ConnectionStatus) => void): Subscription {
+    this.statusHistory.forEach((status: ConnectionStatus) => callback(status));
+    const unsubscribeFunction = this.registry.add("connection-status-changed", callback);
+    return {unsubscribe: async () => unsubscribeFunction()};
+  }
+
+  public disconnect(): Promise<void> {
+    return this.platform.disconnectPeer(this);
+  }
+
+  public onDisconnected(callback: (error?: Error) => void): Subscription {
+    const unsubscribeFunction = this.registry.add("disconnected", callback);
+    return {unsubscribe: async () => unsubscribeFunction()};
+  }
+
+  /**
+   * Called by the platform as the peer connects and disconnects.
+   */
+  public setConnectionStatus(status: ConnectionStatus, error?: Error): void {
+    if (this.connectionStatus === status) {
+      return;
+    }
+    this.connectionStatus = status;
+    this.statusHistory.push(status);
+    this.registry.execute("connection-status-changed", status);
+    if (status === ConnectionStatus.Disconnected) {
+      this.registry.execute("disconnected", error);
+    }
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {default as CallbackRegistryFactory, CallbackRegistry} from "callback-registry";
+
+import {
+  ConnectionStatus,
+  InteropFeature,
+  InteropPeer,
+  InteropPeerDescriptor,
+  InteropPlatform,
+  InvokeResult,
+  Method,
+  MethodImplementation,
+  RegisteredMethod,
+  RegisteredStream,
+  Stream,
+  StreamImplementation,
+  StreamObserver,
+  StreamSubscription,
+  Subscription
+} from "../interfaces/client-api";
+import MemoryPeer from "./memoryPeer";
+
+interface MemoryMethod {
+  owner: MemoryPeer;
+  method: Method;
+  implementation: MethodImplementation;
+}
+
+interface MemoryStream {
+  owner: MemoryPeer;
+  stream: Stream;
+  implementation: StreamImplementation;
+}
+
+interface MemoryStreamSubscription {
+  subscriber: MemoryPeer;
+  memoryStream: MemoryStream;
+  observer: StreamObserver;
+  closed: boolean;
+  serverSubscription?: Subscription;
+}
+
+interface ConnectFailure {
+  error: Error;
+  attempts: number;
+}
+
+/**
+ * An InteropPlatform living entirely in the current process, for running the bus without Glue42 or Plexus,
+ * e.g. in integration tests. Create one instance per simulated platform; any number of peers can connect to each.
+ *
+ * Faults can be injected to exercise the failure paths: failing or slow connection attempts, dropped connections,
+ * slow invocations and failing methods.
+ * ```javascript
+ * const glue = new MemoryPlatform("Glue42");
+ * const plexus = new MemoryPlatform("Plexus");
+ * const bus = await Fdc3Bus([glue, plexus], []);
+ * glue.setInvokeDelay(3000, "Fdc3.Glue42.ContextListener");
+ * ```
+ */
+export default class MemoryPlatform implements InteropPlatform {
+  public readonly type: string;
+  public readonly version: string;
+  private peers: MemoryPeer[] = [];
+  private methods: MemoryMethod[] = [];
+  private streams: MemoryStream[] = [];
+  private streamSubscriptions: MemoryStreamSubscription[] = [];
+  private registry: CallbackRegistry = CallbackRegistryFactory();
+  private peerCount: number = 0;
+  private connectFailure: ConnectFailure;
+  private connectDelay: number = 0;
+  private invokeDelay: number = 0;
+  private methodInvokeDelays: Map<string, number> = new Map();
+  private methodFailures: Map<string, Error> = new Map();
+
+  constructor(type: string, version: string = "1.0.0") {
+    this.type = type;
+    this.version = version;
+  }
+
+  public isFeatureSupported(feature: InteropFeature): boolean {
+    return true;
+  }
+
+  public async connect(
+    applicationName: string,
+    apiMetadata?: string,
+    methods: MethodImplementation[] = [],
+    streams: StreamImplementation[] = []
+  ): Promise<InteropPeer> {
+    if (this.connectDelay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.connectDelay));
+    }
+    if (this.connectFailure && this.connectFailure.attempts > 0) {
+      this.connectFailure.attempts--;
+      throw this.connectFailure.error;
+    }
+
+    this.peerCount++;
+    const peer: MemoryPeer = new MemoryPeer(this, `${this.type}-${this.peerCount}`, applicationName, apiMetadata);
+    this.peers.push(peer);
+    peer.setConnectionStatus(ConnectionStatus.Connected);
+    this.registry.execute("peer-connected", peer.descriptor);
+
+    await Promise.all(methods.map((method: MethodImplementation) => this.registerMethod(peer, method)));
+    await Promise.all(streams.map((stream: StreamImplementation) => this.registerStream(peer, stream)));
+    return peer;
+  }
+
+  /**
+   * Makes the next connection attempts fail with the given error. All attempts fail when no number is given.
+   */
+  public failConnect(error: Error = new Error(`Cannot connect to ${this.type}.`), attempts: number = Infinity): void {
+    this.connectFailure = {error, attempts};
+  }
+
+  /**
+   * Delays the next connection attempts by the given number of milliseconds, e.g. to simulate a platform which does not answer.
+   */
+  public setConnectDelay(delay: number): void {
+    this.connectDelay = delay;
+  }
+
+  /**
+   * Disconnects the peer with the given id, or all the peers, as if the connection to the platform was lost.
+   * The peers go straight to Disconnected and their onDisconnected listeners receive the error.
+   */
+  public async dropConnection(peerId?: string, error: Error = new Error(`Connection to ${this.type} was lost.`)): Promise<void> {
+    const droppedPeers: MemoryPeer[] = this.peers.filter((peer: MemoryPeer) => !peerId || peer.id === peerId);
+    await Promise.all(droppedPeers.map((peer: MemoryPeer) => this.removePeer(peer, error)));
+  }
+
+  /**
+   * Delays the invocations of the given method, or of all methods, by the given number of milliseconds.
+   */
+  public setInvokeDelay(delay: number, methodName?: string): void {
+    if (methodName) {
+      this.methodInvokeDelays.set(methodName, delay);
+    } else {
+      this.invokeDelay = delay;
+    }
+  }
+
+  /**
+   * Makes the invocations of the given method fail with the given error instead of reaching its implementation.
+   */
+  public failMethod(methodName: string, error: Error = new Error(`Method "${methodName}" failed.`)): void {
+    this.methodFailures.set(methodName, error);
+  }
+
+  public clearFaults(): void {
+    this.connectFailure = undefined;
+    this.connectDelay = 0;
+    this.invokeDelay = 0;
+    this.methodInvokeDelays.clear();
+    this.methodFailures.clear();
+  }
+
+  /**
+   * Used by the peers of the platform.
+   */
+  public getPeers(): InteropPeerDescriptor[] {
+    return this.peers.map((peer: MemoryPeer) => peer.descriptor);
+  }
+
+  /**
+   * Used by the peers of the platform.
+   */
+  public getMethods(): Method[] {
+    return this.methods.map((memoryMethod: MemoryMethod) => memoryMethod.method);
+  }
+
+  /**
+   * Used by the peers of the platform.
+   */
+  public getStreams(): Stream[] {
+    return this.streams.map((memoryStream: MemoryStream) => memoryStream.stream);
+  }
+
+  /**
+   * Used by the peers of the platform. The events are delivered to the peer only while it is connected.
+   */
+  public addListener(peer: MemoryPeer, eventName: string, callback: (...args: any[]) => void): Subscription {
+    const unsubscribeFunction = this.registry.add(eventName, (...args: any[]) => {
+      if (peer.isConnected) {
+        callback(...args);
+      }
+    });
+    return {unsubscribe: async () => unsubscribeFunction()};
+  }
+
+  /**
+   * Used by the peers of the platform.
+   */
+  public checkConnected(peer: MemoryPeer): void {
+    if (!peer.isConnected) {
+      throw new Error(`Peer "${peer.id}" is not connected to ${this.type}.`);
+    }
+  }
+
+  /**
+   * Used by the peers of the platform.
+   */
+  public async registerMethod(owner: MemoryPeer, implementation: MethodImplementation): Promise<RegisteredMethod> {
+    this.checkConnected(owner);
+    if (!implementation || !implementation.name) {
+      throw new Error("Method name is mandatory.");
+    }
+    if (this.methods.some((registeredMethod: MemoryMethod) => registeredMethod.owner === owner && registeredMethod.method.name === implementation.name)) {
+      throw new Error(`Method "${implementation.name}" is already registered by peer "${owner.id}".`);
+    }
+
+    const {onInvoke, ...definition} = implementation;
+    const memoryMethod: MemoryMethod = {owner, method: {...definition, peer: owner.descriptor}, implementation};
+    this.methods.push(memoryMethod);
+    this.registry.execute("method-registered", memoryMethod.method);
+
+    return {...memoryMethod.method, unregister: async () => this.unregisterMethod(memoryMethod)};
+  }
+
+  /**
+   * Used by the peers of the platform.
+   */
+  public async registerStream(owner: MemoryPeer, implementation: StreamImplementation): Promise<RegisteredStream> {
+    this.checkConnected(owner);
+    if (!implementation || !implementation.name) {
+      throw new Error("Stream name is mandatory.");
+    }
+    if (this.streams.some((registeredStream: MemoryStream) => registeredStream.owner === owner && registeredStream.stream.name === implementation.name)) {
+      throw new Error(`Stream "${implementation.name}" is already registered by peer "${owner.id}".`);
+    }
+
+    const {onSubscriptionRequested, ...definition} = implementation;
+    const memoryStream: MemoryStream = {owner, stream: {...definition, peer: owner.descriptor}, implementation};
+    this.streams.push(memoryStream);
+    this.registry.execute("stream-registered", memoryStream.stream);
+
+    return {...memoryStream.stream, unregister: () => this.unregisterStream(memoryStream)};
+  }
+
+  /**
+   * Used by the peers of the platform.
+   * The method is looked up by name, and by the peer which registered it when a Method is passed.
+   */
+  public async invoke(caller: MemoryPeer, method: string | Method, args?: any): Promise<InvokeResult> {
+    this.checkConnected(caller);
+    const methodName: string = typeof method === "string" ? method : method.name;
+    const peerId: string = typeof method !== "string" && method.peer ? method.peer.id : undefined;
+    const memoryMethod: MemoryMethod = this.methods
+      .find((registeredMethod: MemoryMethod) => registeredMethod.method.name === methodName && (!peerId || registeredMethod.owner.id === peerId));
+    if (!memoryMethod) {
+      throw new Error(`Method "${methodName}" is not registered on ${this.type}.`);
+    }
+
+    const delay: number = this.methodInvokeDelays.has(methodName) ? this.methodInvokeDelays.get(methodName) : this.invokeDelay;
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    if (this.methodFailures.has(methodName)) {
+      throw this.methodFailures.get(methodName);
+    }
+    if (this.methods.indexOf(memoryMethod) === -1) {
+      throw new Error(`Method "${methodName}" was unregistered from ${this.type}.`);
+    }
+
+    const result: any = await memoryMethod.implementation.onInvoke(args, caller.descriptor);
+    return {method: memoryMethod.method, arguments: args, result};
+  }
+
+  /**
+   * Used by the peers of the platform.
+   * The stream is looked up by name, and by the peer which registered it when a Stream is passed.
+   */
+  public async subscribe(subscriber: MemoryPeer, stream: string | Stream, observer: StreamObserver, args?: any): Promise<StreamSubscription> {
+    this.checkConnected(subscriber);
+    const streamName: string = typeof stream === "string" ? stream : stream.name;
+    const peerId: string = typeof stream !== "string" && stream.peer ? stream.peer.id : undefined;
+    const memoryStream: MemoryStream = this.streams
+      .find((registeredStream: MemoryStream) => registeredStream.stream.name === streamName && (!peerId || registeredStream.owner.id === peerId));
+    if (!memoryStream) {
+      throw new Error(`Stream "${streamName}" is not registered on ${this.type}.`);
+    }
+
+    const subscription: MemoryStreamSubscription = {subscriber, memoryStream, observer, closed: false};
+    const serverObserver: StreamObserver = {
+      next: async (data: any) => {
+        if (!subscription.closed) {
+          await observer.next(data);
+        }
+      },
+      completed: async () => {
+        if (this.closeSubscription(subscription)) {
+          await observer.completed();
+        }
+      },
+      error: async (error: Error) => {
+        if (this.closeSubscription(subscription)) {
+          await observer.error(error);
+        }
+      }
+    };
+    this.streamSubscriptions.push(subscription);
+    subscription.serverSubscription = await memoryStream.implementation.onSubscriptionRequested(serverObserver, subscriber.descriptor, args);
+
+    return {
+      arguments: args,
+      stream: memoryStream.stream,
+      unsubscribe: async () => {
+        if (this.closeSubscription(subscription)) {
+          await subscription.serverSubscription.unsubscribe();
+        }
+      }
+    };
+  }
+
+  /**
+   * Used by the peers of the platform. Goes through Disconnecting to Disconnected.
+   */
+  public async disconnectPeer(peer: MemoryPeer): Promise<void> {
+    if (this.peers.indexOf(peer) === -1) {
+      return;
+    }
+    peer.setConnectionStatus(ConnectionStatus.Disconnecting);
+    await this.removePeer(peer);
+  }
+
+  private async removePeer(peer: MemoryPeer, error?: Error): Promise<void> {
+    if (this.peers.indexOf(peer) === -1) {
+      return;
+    }
+    this.peers.splice(this.peers.indexOf(peer), 1);
+
+    await Promise.all([
+      ...this.methods
+        .filter((memoryMethod: MemoryMethod) => memoryMethod.owner === peer)
+        .map((memoryMethod: MemoryMethod) => this.unregisterMethod(memoryMethod)),
+      ...this.streams
+        .filter((memoryStream: MemoryStream) => memoryStream.owner === peer)
+        .map((memoryStream: MemoryStream) => this.unregisterStream(memoryStream)),
+      ...this.streamSubscriptions
+        .filter((subscription: MemoryStreamSubscription) => subscription.subscriber === peer)
+        .filter((subscription: MemoryStreamSubscription) => this.closeSubscription(subscription))
+        .map((subscription: MemoryStreamSubscription) => subscription.serverSubscription
+          ? subscription.serverSubscription.unsubscribe().catch(() => undefined)
+          : Promise.resolve())
+    ]);
+
+    peer.setConnectionStatus(ConnectionStatus.Disconnected, error);
+    this.registry.execute("peer-disconnected", peer.descriptor);
+  }
+
+  private unregisterMethod(memoryMethod: MemoryMethod): void {
+    const index: number = this.methods.indexOf(memoryMethod);
+    if (index === -1) {
+      return;
+    }
+    this.methods.splice(index, 1);
+    this.registry.execute("method-unregistered", memoryMethod.method);
+  }
+
+  /**
+   * Completes the subscriptions to the stream before announcing it is gone.
+   */
+  private async unregisterStream(memoryStream: MemoryStream): Promise<void> {
+    const index: number = this.streams.indexOf(memoryStream);
+    if (index === -1) {
+      return;
+    }
+    this.streams.splice(index, 1);
+
+    await Promise.all(this.streamSubscriptions
+      .filter((subscription: MemoryStreamSubscription) => subscription.memoryStream === memoryStream)
+      .filter((subscription: MemoryStreamSubscription) => this.closeSubscription(subscription))
+      .map((subscription: MemoryStreamSubscription) => subscription.observer.completed().catch(() => undefined)));
+    this.registry.execute("stream-unregistered", memoryStream.stream);
+  }
+
+  /**
+   * Returns false when the subscription was already closed.
+   */
+  private closeSubscription(subscription: MemoryStreamSubscription): boolean {
+    if (subscription.closed) {
+      return false;
+    }
+    subscription.closed = true;
+    this.streamSubscriptions.splice(this.streamSubscriptions.indexOf(subscription), 1);
+    return true;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {default as CallbackRegistryFactory, CallbackRegistry} from "callback-registry";
+
+import {InteropPeer, InteropPeerDescriptor, Method, Subscription} from "./interfaces/client-api";
+
+// Index key of the methods accepting context of any type.
+const ANY_CONTEXT_TYPE: string = "*";
+
+/**
+ * In-process cache of the methods registered on a platform.
+ *
+ * The cache is seeded with a single discoverMethods() call on first use and is then kept current through the
+ * platform's method and peer events, so that lookups don't go to the platform. The methods are indexed by
+ * method name, intent name and the context types they accept (acceptType and the intents' context).
+ */
+export default class MethodRegistry {
+  private platformApi: InteropPeer;
+  private methods: Map<string, Method> = new Map();
+  private methodsByName: Map<string, Set<string>> = new Map();
+  private methodsByIntent: Map<string, Set<string>> = new Map();
+  private methodsByContextType: Map<string, Set<string>> = new Map();
+  private registry: CallbackRegistry = CallbackRegistryFactory();
+  private subscriptions: Subscription[] = [];
+  private seeding: Promise<void>;
+  private pendingEvents: Array<() => void>;
+
+  constructor(platformApi: InteropPeer) {
+    this.platformApi = platformApi;
+  }
+
+  public async getMethods(): Promise<Method[]> {
+    await this.seed();
+    return Array.from(this.methods.values());
+  }
+
+  public async getMethodsByName(name: string): Promise<Method[]> {
+    await this.seed();
+    return this.lookup(this.methodsByName, name);
+  }
+
+  public async getMethodsByIntent(intent: string): Promise<Method[]> {
+    await this.seed();
+    return this.lookup(this.methodsByIntent, intent);
+  }
+
+  /**
+   * Returns the methods accepting the context type, including the ones which accept any type.
+   */
+  public async getMethodsByContextType(contextType: string): Promise<Method[]> {
+    await this.seed();
+    const methods: Set<Method> = new Set([
+      ...this.lookup(this.methodsByContextType, contextType),
+      ...this.lookup(this.methodsByContextType, ANY_CONTEXT_TYPE)
+    ]);
+    return Array.from(methods);
+  }
+
+  /**
+   * Adds a listener called whenever a method is added to the registry.
+   */
+  public onMethodAdded(callback: (method: Method) => void): () => void {
+    return this.registry.add("method-added", callback);
+  }
+
+  /**
+   * Drops the cached methods and discovers them again from the platform.
+   */
+  public refresh(): Promise<void> {
+    this.seeding = undefined;
+    return this.seed();
+  }
+
+  public dispose(): void {
+    this.subscriptions.forEach((subscription: Subscription) => subscription.unsubscribe().catch(() => undefined));
+    this.subscriptions = [];
+    this.seeding = undefined;
+    this.pendingEvents = undefined;
+    this.clear();
+  }
+
+  private seed(): Promise<void> {
+    if (!this.seeding) {
+      if (this.subscriptions.length === 0) {
+        this.subscribe();
+      }
+
+      const pendingEvents: Array<() => void> = [];
+      this.pendingEvents = pendingEvents;
+      this.seeding = this.platformApi.discoverMethods()
+        .then((methods: Method[]) => {
+          if (this.pendingEvents !== pendingEvents) {
+            // superseded by a later refresh()
+            return this.seeding;
+          }
+          this.clear();
+          methods.forEach((method: Method) => this.add(method));
+          pendingEvents.forEach((applyEvent: () => void) => applyEvent());
+          this.pendingEvents = undefined;
+        })
+        .catch((error) => {
+          if (this.pendingEvents === pendingEvents) {
+            this.seeding = undefined;
+            this.pendingEvents = undefined;
+          }
+          throw error;
+        });
+    }
+    return this.seeding;
+  }
+
+  private subscribe(): void {
+    this.subscriptions = [
+      this.platformApi.onMethodRegistered((method: Method) => this.handleEvent(() => this.add(method))),
+      this.platformApi.onMethodUnregistered((method: Method) => this.handleEvent(() => this.remove(method))),
+      this.platformApi.onPeerDisconnected((peer: InteropPeerDescriptor) => this.handleEvent(() => this.removePeer(peer)))
+    ];
+  }
+
+  /**
+   * Events received while the seeding discoverMethods() call is in flight are applied once it completes,
+   * so that they are not overwritten by its (possibly older) result.
+   */
+  private handleEvent(applyEvent: () => void): void {
+    if (this.pendingEvents) {
+      this.pendingEvents.push(applyEvent);
+    } else {
+      applyEvent();
+    }
+  }
+
+  private add(method: Method): void {
+    const key: string = this.getKey(method);
+    if (this.methods.has(key)) {
+      this.remove(method);
+    }
+
+    this.methods.set(key, method);
+    this.index(this.methodsByName, method.name, key);
+    (method.intent || []).forEach((methodIntent) => {
+      this.index(this.methodsByIntent, methodIntent.name, key);
+      this.indexContextTypes(methodIntent.context || method.acceptType, key);
+    });
+    if (!method.intent || method.intent.length === 0) {
+      this.indexContextTypes(method.acceptType, key);
+    }
+
+    this.registry.execute("method-added", method);
+  }
+
+  private remove(method: Method): void {
+    const key: string = this.getKey(method);
+    if (!this.methods.has(key)) {
+      return;
+    }
+
+    this.methods.delete(key);
+    [this.methodsByName, this.methodsByIntent, this.methodsByContextType].forEach((index: Map<string, Set<string>>) => {
+      index.forEach((keys: Set<string>, indexKey: string) => {
+        keys.delete(key);
+        if (keys.size === 0) {
+          index.delete(indexKey);
+        }
+      });
+    });
+  }
+
+  private removePeer(peer: InteropPeerDescriptor): void {
+    Array.from(this.methods.values())
+      .filter((method: Method) => method.peer && method.peer.id === peer.id)
+      .forEach((method: Method) => this.remove(method));
+  }
+
+  private clear(): void {
+    this.methods.clear();
+    this.methodsByName.clear();
+    this.methodsByIntent.clear();
+    this.methodsByContextType.clear();
+  }
+
+  private index(index: Map<string, Set<string>>, indexKey: string, key: string): void {
+    if (!index.has(indexKey)) {
+      index.set(indexKey, new Set());
+    }
+    index.get(indexKey).add(key);
+  }
+
+  /**
+   * Indexes the method under each of the comma separated context types, or as accepting any type when there are none.
+   */
+  private indexContextTypes(acceptType: string, key: string): void {
+    const contextTypes: string[] = acceptType ? acceptType.split(",") : [ANY_CONTEXT_TYPE];
+    contextTypes.forEach((contextType: string) => this.index(this.methodsByContextType, contextType, key));
+  }
+
+  private lookup(index: Map<string, Set<string>>, indexKey: string): Method[] {
+    const keys: Set<string> = index.get(indexKey);
+    return keys ? Array.from(keys).map((key: string) => this.methods.get(key)) : [];
+  }
+
+  private getKey(method: Method): string {
+    return `${method.peer ? method.peer.id : ""}/${method.name}`;
+  }
+}
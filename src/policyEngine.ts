@@ -0,0 +1,126 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PolicyConfig, PolicyDenial, PolicyRequest, PolicyRule} from "./interfaces/config";
+import {PolicyDenied} from "./errors";
+
+/**
+ * Authorizes the calls made and accepted by the bus against the rules of the policy.
+ *
+ * The rules are evaluated in order and the first one matching the call decides, so narrow exceptions go before broad
+ * rules, e.g. allowing fdc3.portfolio context to the risk app before denying it to all the others. Every denial is
+ * written to the log.
+ */
+export default class PolicyEngine {
+  private rules: PolicyRule[];
+  private defaultEffect: "allow" | "deny";
+  private log: (denial: PolicyDenial) => void;
+
+  constructor(config: PolicyConfig = {}) {
+    this.rules = config.rules || [];
+    this.defaultEffect = config.defaultEffect || "allow";
+    this.log = config.log || ((denial: PolicyDenial) => console.warn(denial.message));
+  }
+
+  /**
+   * Returns the denial of the call, if the policy denies it.
+   */
+  public evaluate(request: PolicyRequest): PolicyDenial | undefined {
+    const denial: PolicyDenial = this.getDenial(request);
+    if (denial) {
+      this.writeLog(denial);
+    }
+    return denial;
+  }
+
+  /**
+   * Returns the denial of the first call when the policy denies every one of them, e.g. the same call made through
+   * each of the platforms it may go through. Only that denial is written to the log.
+   */
+  public evaluateAny(requests: PolicyRequest[]): PolicyDenial | undefined {
+    const denials: PolicyDenial[] = requests.map((request: PolicyRequest) => this.getDenial(request));
+    if (denials.length === 0 || denials.some((denial: PolicyDenial) => !denial)) {
+      return undefined;
+    }
+    this.writeLog(denials[0]);
+    return denials[0];
+  }
+
+  /**
+   * Throws PolicyDenied if the policy denies the call.
+   */
+  public authorize(request: PolicyRequest): void {
+    const denial: PolicyDenial = this.evaluate(request);
+    if (denial) {
+      throw new PolicyDenied(denial);
+    }
+  }
+
+  private getDenial(request: PolicyRequest): PolicyDenial | undefined {
+    const rule: PolicyRule = this.rules.find((candidateRule: PolicyRule) => this.matches(candidateRule, request));
+    const effect: "allow" | "deny" = rule ? rule.effect : this.defaultEffect;
+    if (effect === "allow") {
+      return undefined;
+    }
+
+    return {
+      request,
+      rule,
+      message: `${this.describe(request)} is denied by ${rule ? `rule "${rule.name || this.rules.indexOf(rule)}"` : "the default policy"}`,
+      timestamp: Date.now()
+    };
+  }
+
+  private writeLog(denial: PolicyDenial): void {
+    try {
+      this.log(denial);
+    } catch (error) {
+      // A failing log must not let the call through nor fail it differently.
+    }
+  }
+
+  private matches(rule: PolicyRule, request: PolicyRequest): boolean {
+    return (!rule.operations || rule.operations.indexOf(request.operation) !== -1)
+      && this.matchesValue(rule.applications, request.application)
+      && this.matchesValue(rule.platforms, request.platform)
+      && this.matchesValue(rule.intents, request.intent)
+      && this.matchesValue(rule.contextTypes, request.contextType);
+  }
+
+  private matchesValue(patterns: string[], value: string): boolean {
+    if (!patterns) {
+      return true;
+    }
+    if (typeof value !== "string") {
+      return false;
+    }
+    return patterns.some((pattern: string) => pattern.endsWith("*")
+      ? value.startsWith(pattern.slice(0, -1))
+      : value === pattern);
+  }
+
+  private describe(request: PolicyRequest): string {
+    const incoming: boolean = request.operation === "receiveContext" || request.operation === "receiveIntent";
+    return [
+      `${request.operation}`,
+      request.intent ? `of intent "${request.intent}"` : undefined,
+      request.contextType ? `with context "${request.contextType}"` : undefined,
+      request.application ? `${incoming ? "from" : "to"} "${request.application}"` : undefined,
+      request.platform ? `on platform "${request.platform}"` : undefined
+    ].filter((part: string) => part).join(" ");
+  }
+}
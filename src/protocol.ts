@@ -0,0 +1,155 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Method, MethodImplementation} from "./interfaces/client-api";
+import {ProtocolConfig} from "./interfaces/config";
+import {ValidationError} from "./errors";
+
+/**
+ * What a peer answers when its Protocol method is invoked.
+ */
+export interface ProtocolDescriptor {
+  namespace: string;
+  version: string;
+}
+
+const DEFAULT_NAMESPACE: string = "Fdc3";
+const PROTOCOL_VERSION: string = "1.1";
+const LEGACY_PROTOCOL_VERSION: string = "1.0";
+const PROTOCOL_METHODS: string[] = [
+  "Protocol",
+  "StartApplication",
+  "ListApplications",
+  "ContextListener",
+  "IntentListener",
+  "ChannelBroadcast",
+  "ChannelCurrentContext",
+  "Bridge"
+];
+
+/**
+ * Owns the wire contract between the buses and the platforms: the names of the methods and the protocol version.
+ *
+ * Every method is named <namespace>.<platform>.<method>, e.g. Fdc3.Glue42.ContextListener. The namespace defaults to
+ * "Fdc3" and can be changed per deployment. Each bus registers a <namespace>.<platform>.Protocol method answering its
+ * namespace and version, so that the buses can detect peers speaking another protocol. Peers without that method
+ * predate the versioning and speak version 1.0, which uses the same method names.
+ *
+ * StartApplication may answer {instanceId} with the id of the peer it started, so that the buses can tell the started
+ * instance apart from other instances of the same application.
+ */
+export default class Protocol {
+  public readonly namespace: string;
+  public readonly version: string = PROTOCOL_VERSION;
+  public readonly legacyVersion: string = LEGACY_PROTOCOL_VERSION;
+
+  constructor(config: ProtocolConfig = {}) {
+    const namespace: string = typeof config.namespace === "undefined" ? DEFAULT_NAMESPACE : config.namespace;
+    if (!namespace || typeof namespace !== "string" || namespace.indexOf(".") !== -1) {
+      throw new ValidationError(`Protocol namespace must be a non-empty string without "."`);
+    }
+    this.namespace = namespace;
+  }
+
+  public startApplication(platformName: string): string {
+    return this.methodName(platformName, "StartApplication");
+  }
+
+  public listApplications(platformName: string): string {
+    return this.methodName(platformName, "ListApplications");
+  }
+
+  public contextListener(platformName: string): string {
+    return this.methodName(platformName, "ContextListener");
+  }
+
+  public intentListener(platformName: string, intent: string): string {
+    return `${this.methodName(platformName, "IntentListener")}.${intent}`;
+  }
+
+  public channelBroadcast(platformName: string): string {
+    return this.methodName(platformName, "ChannelBroadcast");
+  }
+
+  public channelCurrentContext(platformName: string): string {
+    return this.methodName(platformName, "ChannelCurrentContext");
+  }
+
+  /**
+   * The method a bridging bus registers on each platform, named after the id of the bus,
+   * so that the bridges connected to the same platforms can find each other.
+   */
+  public bridge(platformName: string, bridgeId: string): string {
+    return `${this.methodName(platformName, "Bridge")}.${bridgeId}`;
+  }
+
+  /**
+   * Returns the id of the bridge which registered the method, or undefined for the other methods.
+   */
+  public getBridgeId(method: Method, platformName: string): string | undefined {
+    const prefix: string = `${this.methodName(platformName, "Bridge")}.`;
+    return method.name && method.name.startsWith(prefix) ? method.name.slice(prefix.length) : undefined;
+  }
+
+  /**
+   * The application name the bus connects to a platform with, unless the platform config sets one.
+   */
+  public applicationName(platformName: string): string {
+    return this.methodName(platformName, "Impl");
+  }
+
+  public methodName(platformName: string, name: string): string {
+    return `${this.namespace}.${platformName}.${name}`;
+  }
+
+  /**
+   * The method every bus registers on connect, answering the protocol it speaks.
+   */
+  public createProtocolMethod(platformName: string): MethodImplementation {
+    const descriptor: ProtocolDescriptor = {namespace: this.namespace, version: this.version};
+    return {
+      name: this.methodName(platformName, "Protocol"),
+      onInvoke: () => Promise.resolve(descriptor)
+    };
+  }
+
+  /**
+   * Returns the namespace of a method named after the protocol for the platform, in this or in any other namespace,
+   * or undefined for the methods which are not part of the protocol.
+   */
+  public getMethodNamespace(method: Method, platformName: string): string | undefined {
+    const nameParts: string[] = (method.name || "").split(".");
+    if (nameParts.length < 3 || nameParts[1] !== platformName || PROTOCOL_METHODS.indexOf(nameParts[2]) === -1) {
+      return undefined;
+    }
+    return nameParts[0];
+  }
+
+  /**
+   * Whether the method is the Protocol method of a peer speaking this namespace.
+   */
+  public isProtocolMethod(method: Method, platformName: string): boolean {
+    return method.name === this.methodName(platformName, "Protocol");
+  }
+
+  /**
+   * Versions with the same major number use the same method names and payloads and can talk to each other.
+   */
+  public isCompatible(version: string): boolean {
+    return String(version).split(".")[0] === this.version.split(".")[0];
+  }
+}
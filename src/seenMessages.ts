@@ -0,0 +1,41 @@
+/**
+ * Copyright © 2014-2019 Tick42 OOD
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+const DEFAULT_CAPACITY: number = 1000;
+
+/**
+ * Remembers the ids of the latest messages, so that a message arriving over several platforms or bridges is handled
+ * once. Only the latest ids are kept: the oldest is forgotten when the capacity is exceeded.
+ */
+export default class SeenMessages {
+  private ids: string[] = [];
+  private capacity: number;
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  public has(messageId: string): boolean {
+    return this.ids.indexOf(messageId) !== -1;
+  }
+
+  public add(messageId: string): void {
+    this.ids.push(messageId);
+    if (this.ids.length > this.capacity) {
+      this.ids.shift();
+    }
+  }
+}
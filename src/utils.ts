@@ -15,39 +15,225 @@
  * limitations under the License.
  */
 
-import {InteropPeer, InteropPlatform, MethodImplementation, Platform} from "./interfaces/client-api";
-import {Context} from "./interfaces/interface";
+import {InteropPeer, InteropPeerDescriptor, InteropPlatform, Method, MethodImplementation, Platform, RegisteredMethod} from "./interfaces/client-api";
+import {AppMetadata, Context, ContextHandler, Delivery, DeliveryStatus, TargetApp} from "./interfaces/interface";
+import {ConnectionStrategy, PolicyDenial} from "./interfaces/config";
+import {PlatformUnavailable, ValidationError} from "./errors";
+import Protocol from "./protocol";
+
+/**
+ * Subscribes the cancel callback of a pending operation to the event stopping it and returns the unsubscribe function.
+ */
+export type CancellationSignal = (cancel: (error: Error) => void) => () => void;
 
 export default class Utils {
-  public static connectUntilReady(interopPlatform: InteropPlatform, methods: MethodImplementation[]): Promise<InteropPeer> {
-    return new Promise((resolve) => {
+  /**
+   * Connects to the platform, retrying as configured by the strategy. With a timeout, each attempt is given up
+   * once the time left runs out, so that a platform which never answers cannot block the caller.
+   * Once the cancellation signal fires, no more attempts are made, a peer connected late is disconnected
+   * and the returned promise rejects with the error of the signal.
+   */
+  public static connectUntilReady(
+    interopPlatform: InteropPlatform,
+    methods: MethodImplementation[],
+    strategy: ConnectionStrategy = {},
+    onAttemptFailed?: (attempt: number, error: any) => void,
+    protocol: Protocol = new Protocol(),
+    cancellation?: CancellationSignal
+  ): Promise<InteropPeer> {
+    return new Promise((resolve, reject) => {
       const applicationName: string = (interopPlatform as any).config && (interopPlatform as any).config.application
-        ? (interopPlatform as any).config.application : `Fdc3.${interopPlatform.type}.Impl`;
+        ? (interopPlatform as any).config.application : protocol.applicationName(interopPlatform.type);
+      const connectMethods: MethodImplementation[] = [protocol.createProtocolMethod(interopPlatform.type), ...methods];
+      const maxAttempts: number = strategy.maxAttempts || Infinity;
+      const deadline: number = typeof strategy.timeout === "number" ? Date.now() + strategy.timeout : Infinity;
+      let attempt: number = 0;
+      let retryTimer: any;
+      let cancelError: Error;
+      const stopListening: () => void = cancellation
+        ? cancellation((error: Error) => {
+          cancelError = error;
+          clearTimeout(retryTimer);
+          reject(error);
+        })
+        : () => undefined;
+      if (cancelError) {
+        return;
+      }
       (function connect() {
-        interopPlatform.connect(applicationName, undefined, methods)
-          .then((interopPeer) => resolve(interopPeer))
-          .catch(() => setTimeout(connect, 2000));
+        attempt++;
+        const connection: Promise<InteropPeer> = interopPlatform.connect(applicationName, undefined, connectMethods);
+        const limitedConnection: Promise<InteropPeer> = deadline === Infinity
+          ? connection
+          : Utils.withTimeout(connection, Math.max(deadline - Date.now(), 0),
+            new Error(`Connecting to platform "${interopPlatform.type}" did not complete within ${strategy.timeout} ms`));
+        limitedConnection
+          .then((interopPeer) => {
+            if (cancelError) {
+              interopPeer.disconnect().catch(() => undefined);
+              return;
+            }
+            stopListening();
+            resolve(interopPeer);
+          })
+          .catch((error) => {
+            // The attempt may still connect after it was given up.
+            connection.then((interopPeer: InteropPeer) => interopPeer.disconnect().catch(() => undefined), () => undefined);
+            if (cancelError) {
+              return;
+            }
+            if (onAttemptFailed) {
+              onAttemptFailed(attempt, error);
+            }
+            const delay: number = Utils.getRetryDelay(strategy, attempt);
+            if (attempt >= maxAttempts || Date.now() + delay > deadline) {
+              stopListening();
+              reject(new PlatformUnavailable(interopPlatform.type,
+                `Unable to connect to platform "${interopPlatform.type}" after ${attempt} attempt(s)`, error));
+              return;
+            }
+            retryTimer = setTimeout(connect, delay);
+          });
       })();
     });
   }
 
-  public static async interopPlatformsToPlatforms(interopPlatforms: InteropPlatform[], methods: MethodImplementation[]): Promise<Platform[]> {
-    const interopPlatformsConnectionPromises = interopPlatforms
-      .map((interopPlatform: InteropPlatform) => Utils.connectUntilReady(interopPlatform, methods));
-    const interopPeers = await Promise.all(interopPlatformsConnectionPromises);
-    const interopPlatformNamesAndVersions = interopPlatforms
-      .map((interopPlatform: InteropPlatform) => ({ name: interopPlatform.type, version: interopPlatform.version }));
-    const platforms = interopPeers
-      .map((interopPeer, index) => ({
-        name: interopPlatformNamesAndVersions[index].name,
-        version: interopPlatformNamesAndVersions[index].version,
-        online: interopPeer.isConnected,
-        connectionStatus: interopPeer.connectionStatus,
-        config: "", // TODO:
-        platformApi: interopPeer,
-      }));
+  /**
+   * Connects to all the platforms. When any of them cannot be connected to, the pending attempts are cancelled
+   * and the peers already connected are disconnected before rejecting.
+   */
+  public static async interopPlatformsToPlatforms(
+    interopPlatforms: InteropPlatform[],
+    methods: MethodImplementation[],
+    strategy?: ConnectionStrategy,
+    protocol?: Protocol
+  ): Promise<Platform[]> {
+    const cancelCallbacks: Array<(error: Error) => void> = [];
+    const cancellation: CancellationSignal = (cancel: (error: Error) => void) => {
+      cancelCallbacks.push(cancel);
+      return () => {
+        if (cancelCallbacks.indexOf(cancel) !== -1) {
+          cancelCallbacks.splice(cancelCallbacks.indexOf(cancel), 1);
+        }
+      };
+    };
+    const interopPlatformsConnectionPromises: Array<Promise<InteropPeer>> = interopPlatforms
+      .map((interopPlatform: InteropPlatform) => Utils.connectUntilReady(interopPlatform, methods, strategy, undefined, protocol, cancellation));
+
+    let interopPeers: InteropPeer[];
+    try {
+      interopPeers = await Promise.all(interopPlatformsConnectionPromises);
+    } catch (error) {
+      cancelCallbacks.slice().forEach((cancel: (error: Error) => void) => cancel(error));
+      await Promise.all(interopPlatformsConnectionPromises.map((connectionPromise: Promise<InteropPeer>) => connectionPromise
+        .then((interopPeer: InteropPeer) => interopPeer.disconnect(), () => undefined)
+        .catch(() => undefined)));
+      throw error;
+    }
+    return interopPeers
+      .map((interopPeer: InteropPeer, index: number) => Utils.interopPeerToPlatform(interopPlatforms[index], interopPeer));
+  }
+
+  public static interopPeerToPlatform(interopPlatform: InteropPlatform, interopPeer: InteropPeer): Platform {
+    return {
+      name: interopPlatform.type,
+      version: interopPlatform.version,
+      online: interopPeer.isConnected,
+      connectionStatus: interopPeer.connectionStatus,
+      config: Utils.stringifyConfig((interopPlatform as any).config),
+      platformApi: interopPeer,
+    };
+  }
+
+  public static peerToAppMetadata(peer: InteropPeerDescriptor, platformName: string): AppMetadata {
+    return {
+      name: peer.applicationName,
+      instanceId: peer.id,
+      platform: platformName
+    };
+  }
+
+  public static stringifyConfig(config: any): string {
+    if (typeof config === "undefined") {
+      return undefined;
+    }
+    try {
+      return typeof config === "string" ? config : JSON.stringify(config);
+    } catch (error) {
+      return String(config);
+    }
+  }
+
+  public static withTimeout<T>(promise: Promise<T>, timeout: number, error: Error): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(error), timeout);
+      promise
+        .then((result: T) => {
+          clearTimeout(timer);
+          resolve(result);
+        })
+        .catch((promiseError) => {
+          clearTimeout(timer);
+          reject(promiseError);
+        });
+    });
+  }
+
+  /**
+   * Invokes the method with the given arguments and reports whether the invocation succeeded, failed or timed out.
+   */
+  public static async deliver(platform: Platform, method: Method, args: any, timeout: number): Promise<Delivery> {
+    const target: AppMetadata = this.methodToAppMetadata(platform, method);
+    const timeoutError: Error = new Error(`Delivery timed out after ${timeout} ms.`);
+    try {
+      await this.withTimeout(platform.platformApi.invoke(method, args), timeout, timeoutError);
+      return {target, status: DeliveryStatus.Success};
+    } catch (error) {
+      return {
+        target,
+        status: error === timeoutError ? DeliveryStatus.Timeout : DeliveryStatus.Failure,
+        error: error && error.message ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Reports a delivery the authorization policy did not let through. The method is not invoked.
+   */
+  public static deniedDelivery(platform: Platform, method: Method, denial: PolicyDenial): Delivery {
+    return {target: this.methodToAppMetadata(platform, method), status: DeliveryStatus.Denied, error: denial.message};
+  }
+
+  public static methodToAppMetadata(platform: Platform, method: Method): AppMetadata {
+    return method.peer
+      ? this.peerToAppMetadata(method.peer, platform.name)
+      : {name: undefined, platform: platform.name};
+  }
+
+  /**
+   * Calls every handler and waits for the results of all of them. The returned promise rejects if any handler throws or rejects.
+   */
+  public static invokeHandlers(handlers: Array<(...args: any[]) => any>, ...args: any[]): Promise<any[]> {
+    return Promise.all(handlers.map((handler: (...args: any[]) => any) => {
+      try {
+        return Promise.resolve(handler(...args));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }));
+  }
+
+  /**
+   * Unregisters the methods once their registrations settle. Failed registrations and unregistrations are ignored.
+   */
+  public static async unregisterMethods(registrations: Array<Promise<RegisteredMethod>>): Promise<void> {
+    await Promise.all(registrations.map((registration: Promise<RegisteredMethod>) => registration
+      .then((method: RegisteredMethod) => method.unregister())
+      .catch(() => undefined)));
+  }
 
-    return platforms;
+  public static generateId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
   }
 
   public static validateContext(context: Context): void {
@@ -55,31 +241,33 @@ export default class Utils {
       return;
     }
     if (typeof context !== "object") {
-      throw new Error(`Context must be of type "object"`);
+      throw new ValidationError(`Context must be of type "object"`);
     }
     if (!context.type) {
-      throw new Error(`Context type is mandatory parameter`);
+      throw new ValidationError(`Context type is mandatory parameter`);
     }
     if (typeof context.type !== "string") {
-      throw new Error(`Context type must be of type "string"`);
+      throw new ValidationError(`Context type must be of type "string"`);
     }
     if (context.name && typeof context.name !== "string") {
-      throw new Error(`Context name must be of type "string"`);
+      throw new ValidationError(`Context name must be of type "string"`);
     }
   }
 
-  public static validateOpenParams(app: string, context?: Context): void {
+  public static validateOpenParams(app: TargetApp, context?: Context): void {
+    this.validateTargetApp(app);
+    this.validateContext(context);
+  }
+
+  public static validateTargetApp(app: TargetApp): void {
     if (!app) {
-      throw new Error("App is mandatory parameter");
+      throw new ValidationError("App is mandatory parameter");
     }
-    if (typeof app !== "string") {
-      throw new Error(`App must be of type "string"`);
+    if (typeof app !== "string" && typeof app !== "object") {
+      throw new ValidationError(`App must be of type "string" or "object"`);
     }
-
-    try {
-      this.validateContext(context);
-    } catch (error) {
-      throw new Error(error.message);
+    if (typeof app === "object" && typeof app.name !== "string") {
+      throw new ValidationError(`App name must be of type "string"`);
     }
   }
 
@@ -88,31 +276,82 @@ export default class Utils {
     this.validateContext(context);
   }
 
-  public static validateRaiseIntent(intent: string, context: Context, target?: string): void {
+  public static validateRaiseIntent(intent: string, context: Context, target?: TargetApp): void {
     this.validateIntentAndContextParams(intent, context);
 
-    if (target && typeof target !== "string") {
-      throw new Error(`Target must be of type "string"`);
+    if (target && typeof target !== "string" && typeof target !== "object") {
+      throw new ValidationError(`Target must be of type "string" or "object"`);
+    }
+    if (target && typeof target === "object" && typeof target.name !== "string") {
+      throw new ValidationError(`Target name must be of type "string"`);
     }
   }
 
-  public static validateAddIntentListener(intent: string, handler: (context: Context) => void): void {
+  public static validateAddIntentListener(intent: string, handler: (context: Context) => any): void {
     this.validateIntent(intent);
 
     if (!handler) {
-      throw new Error("Handler is mandatory parameter");
+      throw new ValidationError("Handler is mandatory parameter");
+    }
+    if (typeof handler !== "function") {
+      throw new ValidationError(`Handler must be of type "function"`);
+    }
+  }
+
+  public static getContextListenerArgs(
+    contextTypeOrHandler: string | ContextHandler,
+    handler?: ContextHandler
+  ): {contextType?: string, handler: ContextHandler} {
+    if (typeof contextTypeOrHandler === "function") {
+      return this.getContextListenerArgs(undefined, contextTypeOrHandler);
+    }
+
+    if (contextTypeOrHandler && typeof contextTypeOrHandler !== "string") {
+      throw new ValidationError(`Context type must be of type "string"`);
+    }
+    if (!handler) {
+      throw new ValidationError("Handler is mandatory parameter");
     }
     if (typeof handler !== "function") {
-      throw new Error(`Handler must be of type "function"`);
+      throw new ValidationError(`Handler must be of type "function"`);
     }
+
+    return {contextType: contextTypeOrHandler || undefined, handler};
+  }
+
+  /**
+   * The context types a method accepts are advertised in MethodDefinition.acceptType as a comma separated list.
+   * A method without acceptType accepts any context.
+   */
+  public static acceptsContextType(acceptType: string, contextType: string): boolean {
+    return !acceptType || acceptType.split(",").indexOf(contextType) !== -1;
+  }
+
+  public static validateChannelId(channelId: string): void {
+    if (!channelId) {
+      throw new ValidationError("Channel id is mandatory parameter");
+    }
+    if (typeof channelId !== "string") {
+      throw new ValidationError(`Channel id must be of type "string"`);
+    }
+  }
+
+  private static getRetryDelay(strategy: ConnectionStrategy, attempt: number): number {
+    const initialDelay: number = typeof strategy.initialDelay === "number" ? strategy.initialDelay : 2000;
+    const maxDelay: number = typeof strategy.maxDelay === "number" ? strategy.maxDelay : 30000;
+    const backoffFactor: number = typeof strategy.backoffFactor === "number" ? strategy.backoffFactor : 2;
+    const jitter: number = typeof strategy.jitter === "number" ? strategy.jitter : 0.2;
+
+    const delay: number = Math.min(maxDelay, initialDelay * Math.pow(backoffFactor, attempt - 1));
+    return Math.round(delay * (1 - jitter + Math.random() * 2 * jitter));
   }
 
   private static validateIntent(intent: string): void {
     if (!intent) {
-      throw new Error("Intent is mandatory parameter");
+      throw new ValidationError("Intent is mandatory parameter");
     }
     if (typeof intent !== "string") {
-      throw new Error(`Intent must be of type "string"`);
+      throw new ValidationError(`Intent must be of type "string"`);
     }
   }
 }
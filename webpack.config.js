@@ -22,7 +22,24 @@ const browserConfig = {
     path: path.resolve(__dirname, 'dist'),
     filename: 'index.web.js',
     libraryTarget: 'umd'
+  },
+  node: {
+    // The App Directory reads local files on Node.js only
+    fs: 'empty'
   }
 };
 
-module.exports = [browserConfig, nodeConfig];
\ No newline at end of file
+// The in-memory platform and the conformance suite, built apart from the production bundles
+const testingConfig = {
+  devtool: 'source-map',
+  mode: 'production',
+  entry: path.resolve(__dirname, 'src-js/testing.js'),
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: 'testing.node.js',
+    libraryTarget: 'umd'
+  },
+  target: 'node'
+}
+
+module.exports = [browserConfig, nodeConfig, testingConfig];
\ No newline at end of file